@@ -1,16 +1,41 @@
-import { useState, useCallback, useMemo, useEffect, useRef, type WheelEvent } from 'react';
+import { Suspense, useState, useCallback, useMemo, useEffect, useRef, type WheelEvent } from 'react';
 import { AnimatePresence, motion } from 'motion/react';
+import OverlayFocusTrap from './components/OverlayFocusTrap';
 import Stack from './components/Stack';
 import Card from './components/Card';
-import ScrollInteraction from './components/interactions/ScrollInteraction';
-import ComingSoonInteraction from './components/interactions/ComingSoonInteraction';
-import VibeCodingInteraction from './components/interactions/VibeCodingInteraction';
-import ReorganizeInteraction from './components/interactions/ReorganizeInteraction';
-import JournalInteraction from './components/interactions/JournalInteraction';
-import { cards, type CardData } from './data/cards';
-import dragWarPreviewBg from './assets/DragWar.svg';
-
-const SOLVED_STORAGE_KEY = 'solvedCards';
+import DeckFinale from './components/DeckFinale';
+import RewardSheet from './components/RewardSheet';
+import InteractionErrorBoundary from './components/InteractionErrorBoundary';
+import InteractionLoading from './components/InteractionLoading';
+import { formatCardBests, getInteraction, preloadInteraction, retryInteraction } from './components/interactions/registry';
+import { applySchedule, useScheduleClock } from './data/cardSchedule';
+import type { CardData, Deck } from './data/cards';
+import {
+  getProgress,
+  isCardSolved,
+  leaveHardMode,
+  recordCardAttempt,
+  recordCardSolved,
+  resetProgress,
+  startHardMode,
+  useDeckMode,
+  useProgress,
+} from './data/progress';
+import { formatPrerequisites, getLockedCards, isDeckComplete, queueUnlockAnimations } from './data/progression';
+import { audioService, useAudioSettings } from './utils/audio';
+import { cardRouteHash, homeRouteUrl, parseCardRoute } from './utils/cardRoute';
+import {
+  MAX_HAPTIC_INTENSITY,
+  MIN_HAPTIC_INTENSITY,
+  haptic,
+  setHapticsEnabled,
+  setHapticsIntensity,
+  supportsHaptics,
+  useHapticsSettings,
+} from './utils/haptics';
+import { DAILY_SEED_VALUE, isDailySeed, StreamRoundContext, urlWithSeed, useSessionSource } from './utils/random';
+import { useReducedMotionSetting } from './utils/reducedMotion';
+
 const DESKTOP_BREAKPOINT = 1024;
 const DESKTOP_CARD_WIDTH = 300;
 const DESKTOP_CARD_HEIGHT = 380;
@@ -18,21 +43,24 @@ const DESKTOP_CARD_GAP = 24;
 const DESKTOP_CARD_SPACING = DESKTOP_CARD_WIDTH + DESKTOP_CARD_GAP;
 const DESKTOP_HOVER_SCALE = 1.18;
 const DESKTOP_DEFAULT_TOP_RATIO = 628 / 1024;
-const DESKTOP_FEATURED_CARD_IDS = ['3', '2', '1'] as const;
 const DESKTOP_WHEEL_IDLE_MS = 520;
+/** Lets the interaction's own ending play before the reward sheet slides over it. */
+const REWARD_SHEET_DELAY_MS = 1600;
 
 type DesktopRailItem = { kind: 'card'; id: string; card: CardData };
-const DRAG_WAR_LEFT_TITLE = [
-  { char: 'D', top: 71.02, left: 25.87 },
-  { char: 'R', top: 133.02, left: 27.37 },
-  { char: 'A', top: 195.02, left: 25.87 },
-  { char: 'G', top: 257.02, left: 25.37 },
-];
-const DRAG_WAR_RIGHT_TITLE = [
-  { char: 'W', top: 101, left: 249.79 },
-  { char: 'A', top: 163, left: 254.79 },
-  { char: 'R', top: 225, left: 256.29 },
-];
+
+const HOME_SETTING_STYLE: React.CSSProperties = {
+  padding: 0,
+  background: 'none',
+  border: 'none',
+  fontFamily: "'Instrument Serif', 'Times New Roman', serif",
+  fontSize: 12,
+  lineHeight: 1.5,
+  color: '#000000',
+  textDecoration: 'underline',
+  textDecorationSkipInk: 'none',
+  cursor: 'pointer',
+};
 
 function useCardSize() {
   return useMemo(
@@ -64,102 +92,162 @@ function useViewportSize() {
   return size;
 }
 
-function ScrollPreviewCard() {
-  const titleStyle = {
-    position: 'absolute' as const,
-    margin: 0,
-    color: '#FFFFFF',
-    fontFamily: "'Inter', 'Manrope', sans-serif",
-    fontStyle: 'normal' as const,
-    fontWeight: 700,
-    fontSize: 32,
-    lineHeight: 1.5,
-    textShadow: '0px 3px 10px rgba(0,0,0,0.37)',
-    pointerEvents: 'none' as const,
-    userSelect: 'none' as const,
-  };
-
-  return (
-    <div
-      style={{
-        width: '100%',
-        height: '100%',
-        borderRadius: 24,
-        position: 'relative',
-        overflow: 'hidden',
-        backgroundColor: 'transparent',
-        userSelect: 'none',
-      }}
-    >
-      <img
-        src={dragWarPreviewBg}
-        alt=""
-        draggable={false}
-        style={{
-          position: 'absolute',
-          inset: 0,
-          width: '100%',
-          height: '100%',
-          objectFit: 'cover',
-          pointerEvents: 'none',
-          userSelect: 'none',
-        }}
-      />
-      {DRAG_WAR_LEFT_TITLE.map((letter, index) => (
-        <p
-          key={`drag-war-left-${letter.char}-${index}`}
-          style={{
-            ...titleStyle,
-            top: letter.top,
-            left: letter.left,
-          }}
-        >
-          {letter.char}
-        </p>
-      ))}
-      {DRAG_WAR_RIGHT_TITLE.map((letter, index) => (
-        <p
-          key={`drag-war-right-${letter.char}-${index}`}
-          style={{
-            ...titleStyle,
-            top: letter.top,
-            left: letter.left,
-          }}
-        >
-          {letter.char}
-        </p>
-      ))}
-    </div>
-  );
+interface AppProps {
+  deck: Deck;
 }
 
-function App() {
+function App({ deck: manifestDeck }: AppProps) {
   const viewport = useViewportSize();
   const isDesktop = viewport.width >= DESKTOP_BREAKPOINT;
   const cardSize = useCardSize();
+  const scheduleNow = useScheduleClock(manifestDeck.cards);
+  const deck = useMemo(() => applySchedule(manifestDeck, scheduleNow), [manifestDeck, scheduleNow]);
+  const progress = useProgress();
+  const lockedCards = useMemo(() => getLockedCards(deck.cards, progress), [deck, progress]);
+  const deckMode = useDeckMode();
+  const completionCards = useMemo(
+    () => deck.cards.filter((card) => !getInteraction(card.interaction).placeholder),
+    [deck]
+  );
+  const deckComplete = isDeckComplete(completionCards, progress);
+  const [finaleOpen, setFinaleOpen] = useState(false);
+  const finalePendingRef = useRef(false);
+
+  // The finale waits for the solving overlay to close, then takes over the home screen.
+  const showPendingFinale = useCallback(() => {
+    if (!finalePendingRef.current) return;
+    finalePendingRef.current = false;
+    setFinaleOpen(true);
+  }, []);
 
-  const [activeScratchCard, setActiveScratchCard] = useState<CardData | null>(null);
-  const [solvedCardIds, setSolvedCardIds] = useState<Set<string>>(() => {
-    if (typeof window === 'undefined') return new Set();
-    try {
-      const stored = localStorage.getItem(SOLVED_STORAGE_KEY);
-      if (!stored) return new Set();
-
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) return new Set();
-
-      const validCardIds = new Set(cards.map((card) => card.id));
-      const restored = new Set<string>();
-      parsed.forEach((id) => {
-        if (typeof id === 'string' && validCardIds.has(id)) {
-          restored.add(id);
-        }
-      });
-      return restored;
-    } catch {
-      return new Set();
+  const [rewardCard, setRewardCard] = useState<CardData | null>(null);
+  const rewardTimerRef = useRef<number | null>(null);
+
+  const clearRewardSheet = useCallback(() => {
+    if (rewardTimerRef.current !== null) {
+      window.clearTimeout(rewardTimerRef.current);
+      rewardTimerRef.current = null;
     }
+    setRewardCard(null);
+  }, []);
+
+  useEffect(() => () => {
+    if (rewardTimerRef.current !== null) window.clearTimeout(rewardTimerRef.current);
+  }, []);
+
+  const [activeScratchCard, setActiveScratchCard] = useState<CardData | null>(() => {
+    if (typeof window === 'undefined') return null;
+    const routedId = parseCardRoute(window.location.hash);
+    if (!routedId || lockedCards.has(routedId)) return null;
+    return deck.cards.find((card) => card.id === routedId) ?? null;
   });
+  // Opens per card this session; each open seeds the card's random streams for a fresh round
+  const [cardOpens, setCardOpens] = useState<Record<string, number>>(() =>
+    activeScratchCard ? { [activeScratchCard.id]: 1 } : {},
+  );
+  const countCardOpen = useCallback((card: CardData) => {
+    setCardOpens((previous) => ({ ...previous, [card.id]: (previous[card.id] ?? 0) + 1 }));
+  }, []);
+  const { reducedMotion, setReducedMotion } = useReducedMotionSetting();
+  const dailySeedActive = isDailySeed(useSessionSource().seed);
+  const audioSettings = useAudioSettings();
+  const hapticsSettings = useHapticsSettings();
+  const attemptedCardRef = useRef<CardData | null>(null);
+
+  useEffect(() => {
+    if (activeScratchCard === attemptedCardRef.current) return;
+    attemptedCardRef.current = activeScratchCard;
+    if (activeScratchCard) {
+      recordCardAttempt(activeScratchCard.id);
+    }
+  }, [activeScratchCard]);
+
+  const cardById = useMemo(() => {
+    const map = new Map<string, CardData>();
+    deck.cards.forEach((card) => map.set(card.id, card));
+    return map;
+  }, [deck]);
+
+  const routeSeededRef = useRef(false);
+
+  useEffect(() => {
+    if (routeSeededRef.current) return;
+    routeSeededRef.current = true;
+
+    const routedId = parseCardRoute(window.location.hash);
+    if (routedId === null) return;
+
+    // Put the stack underneath a deep link so Back closes the overlay instead of leaving the site.
+    const deepLink = window.location.hash;
+    window.history.replaceState(null, '', homeRouteUrl());
+    if (cardById.has(routedId) && !lockedCards.has(routedId)) {
+      window.history.pushState(null, '', deepLink);
+    }
+  }, [cardById, lockedCards]);
+
+  useEffect(() => {
+    const syncFromLocation = () => {
+      const routedId = parseCardRoute(window.location.hash);
+      const routedCard = routedId && !lockedCards.has(routedId) ? cardById.get(routedId) : undefined;
+      if (routedCard) {
+        retryInteraction(routedCard.interaction);
+        countCardOpen(routedCard);
+      }
+      setActiveScratchCard(routedCard ?? null);
+      if (!routedCard) {
+        clearRewardSheet();
+        showPendingFinale();
+      }
+    };
+
+    window.addEventListener('popstate', syncFromLocation);
+    window.addEventListener('hashchange', syncFromLocation);
+    return () => {
+      window.removeEventListener('popstate', syncFromLocation);
+      window.removeEventListener('hashchange', syncFromLocation);
+    };
+  }, [cardById, lockedCards, clearRewardSheet, showPendingFinale, countCardOpen]);
+
+  const unlockedWhileOpenRef = useRef(new Set<string>());
+
+  const handleReveal = useCallback((cardId: string) => {
+    const lockedBefore = getLockedCards(deck.cards, getProgress());
+    const completeBefore = isDeckComplete(completionCards, getProgress());
+    recordCardSolved(cardId);
+    const lockedAfter = getLockedCards(deck.cards, getProgress());
+    lockedBefore.forEach((_, id) => {
+      if (!lockedAfter.has(id)) unlockedWhileOpenRef.current.add(id);
+    });
+    if (!completeBefore && isDeckComplete(completionCards, getProgress())) {
+      finalePendingRef.current = true;
+    }
+
+    const solvedCard = cardById.get(cardId);
+    if (solvedCard?.url && rewardTimerRef.current === null) {
+      rewardTimerRef.current = window.setTimeout(() => {
+        rewardTimerRef.current = null;
+        setRewardCard(solvedCard);
+      }, REWARD_SHEET_DELAY_MS);
+    }
+  }, [deck, completionCards, cardById]);
+
+  const handleResetProgress = useCallback(() => {
+    resetProgress();
+    setFinaleOpen(false);
+  }, []);
+
+  const handleReplayHard = useCallback(() => {
+    startHardMode();
+    setFinaleOpen(false);
+  }, []);
+
+  // Hold unlock animations until the overlay closes so the player sees them on the stack.
+  useEffect(() => {
+    if (activeScratchCard || unlockedWhileOpenRef.current.size === 0) return;
+    queueUnlockAnimations(unlockedWhileOpenRef.current);
+    unlockedWhileOpenRef.current = new Set();
+    haptic('success');
+  }, [activeScratchCard]);
 
   const [desktopOffset, setDesktopOffset] = useState(0);
   const [desktopPointer, setDesktopPointer] = useState<{ x: number; y: number } | null>(null);
@@ -188,35 +276,16 @@ function App() {
     }
   }, [isDesktop, activeScratchCard]);
 
-  const cardById = useMemo(() => {
-    const map = new Map<string, CardData>();
-    cards.forEach((card) => map.set(card.id, card));
-    return map;
-  }, []);
-
-  const desktopCards = useMemo(() => {
-    const visibleMobileCards = cards;
-    const visibleIds = visibleMobileCards.map((card) => card.id);
-    const extras = visibleIds.filter((id) => !DESKTOP_FEATURED_CARD_IDS.includes(id as typeof DESKTOP_FEATURED_CARD_IDS[number]));
-    const leftExtras = extras.filter((_, index) => index % 2 === 0);
-    const rightExtras = extras.filter((_, index) => index % 2 === 1);
-    const orderedIds = [...leftExtras.reverse(), ...DESKTOP_FEATURED_CARD_IDS, ...rightExtras];
-
-    return orderedIds
-      .map((id) => cardById.get(id))
-      .filter((card): card is CardData => Boolean(card));
-  }, [cardById]);
-
   const desktopRail = useMemo<DesktopRailItem[]>(() => {
     const rail: DesktopRailItem[] = [];
-    desktopCards.forEach((card) => rail.push({ kind: 'card', id: card.id, card }));
+    deck.desktop.forEach((card) => rail.push({ kind: 'card', id: card.id, card }));
     return rail;
-  }, [desktopCards]);
+  }, [deck]);
 
   const desktopCenterIndex = useMemo(() => {
-    const vibeIndex = desktopRail.findIndex((entry) => entry.kind === 'card' && entry.id === '2');
-    return vibeIndex >= 0 ? vibeIndex : 0;
-  }, [desktopRail]);
+    const centerIndex = desktopRail.findIndex((entry) => entry.kind === 'card' && entry.id === deck.desktopCenterId);
+    return centerIndex >= 0 ? centerIndex : 0;
+  }, [desktopRail, deck]);
 
   const desktopLoopSpan = desktopRail.length * DESKTOP_CARD_SPACING;
 
@@ -264,46 +333,60 @@ function App() {
     });
   }, [isDesktop, desktopLoopSpan, activeScratchCard, isDesktopWheelActive]);
 
-  // Only show a subset in the fanned stack (exclude visually white/neutral cards).
-  const stackCards = useMemo(
-    () => {
-      const visibleCards = cards.filter((card) => card.includeInStack !== false);
+  // The manifest lists stack cards bottom to top, so the last one starts on top.
+  const stackCards = deck.stack;
 
-      const extractCard = (id: string) => {
-        const index = visibleCards.findIndex((card) => card.id === id);
-        if (index < 0) return null;
-        const [card] = visibleCards.splice(index, 1);
-        return card;
-      };
+  const topCardIndexRef = useRef(stackCards.length - 1);
+  // Releases, retirements and unlocks remount the stack, which starts again from its top card.
+  const stackKey = stackCards
+    .map((card) => `${card.id}:${card.interaction}${lockedCards.has(card.id) ? ':locked' : ''}`)
+    .join('|');
 
-      const doomscrollingCard = extractCard('3');
-      const vibeCard = extractCard('2');
+  useEffect(() => {
+    topCardIndexRef.current = stackCards.length - 1;
+  }, [stackKey, stackCards.length]);
 
-      if (doomscrollingCard) visibleCards.push(doomscrollingCard);
-      if (vibeCard) visibleCards.push(vibeCard);
-
-      return visibleCards;
-    },
-    []
-  );
+  // Overlays are code-split; fetch the one under the player's thumb before they tap it.
+  const preloadCard = useCallback((card: CardData | undefined) => {
+    if (card && !lockedCards.has(card.id)) preloadInteraction(card.interaction);
+  }, [lockedCards]);
 
+  const initialTopCard = stackCards[stackCards.length - 1];
   useEffect(() => {
-    try {
-      localStorage.setItem(SOLVED_STORAGE_KEY, JSON.stringify(Array.from(solvedCardIds)));
-    } catch {
-      // ignore storage failures
-    }
-  }, [solvedCardIds]);
-
-  const topCardIndexRef = useRef(stackCards.length - 1);
+    if (!isDesktop) preloadCard(initialTopCard);
+  }, [isDesktop, initialTopCard, preloadCard]);
 
   const handleCardChange = useCallback((topIndex: number) => {
     topCardIndexRef.current = topIndex;
-  }, []);
+    preloadCard(stackCards[topIndex]);
+  }, [preloadCard, stackCards]);
 
   const openScratchForCard = useCallback((card: CardData) => {
+    if (lockedCards.has(card.id)) {
+      haptic('failure');
+      return;
+    }
+    clearRewardSheet();
+    // Reopening a card whose chunk failed to download earlier fetches it again instead of re-throwing
+    retryInteraction(card.interaction);
+    countCardOpen(card);
     setActiveScratchCard(card);
-  }, []);
+    const hash = cardRouteHash(card.id);
+    if (window.location.hash !== hash) {
+      window.history.pushState(null, '', hash);
+    }
+  }, [lockedCards, clearRewardSheet, countCardOpen]);
+
+  const closeActiveCard = useCallback(() => {
+    // Every card route sits on top of a stack entry, so stepping back keeps Back and close in sync.
+    if (parseCardRoute(window.location.hash) !== null) {
+      window.history.back();
+      return;
+    }
+    setActiveScratchCard(null);
+    clearRewardSheet();
+    showPendingFinale();
+  }, [clearRewardSheet, showPendingFinale]);
 
   const handleCardTap = useCallback(() => {
     const tappedCard = stackCards[topCardIndexRef.current];
@@ -311,22 +394,23 @@ function App() {
     openScratchForCard(tappedCard);
   }, [openScratchForCard, stackCards]);
 
-  const handleCardSolved = useCallback((cardId: string) => {
-    setSolvedCardIds((previous) => {
-      if (previous.has(cardId)) return previous;
-      const next = new Set(previous);
-      next.add(cardId);
-      return next;
-    });
-  }, []);
+  const getCardLabel = useCallback((card: CardData) => {
+    const lockedBy = lockedCards.get(card.id);
+    if (lockedBy) {
+      return `${card.headline}. Locked: solve ${formatPrerequisites(lockedBy)} first`;
+    }
+    const solved = isCardSolved(progress.cards[card.id]);
+    return [card.headline, card.subtext, solved ? 'solved' : 'not solved yet'].filter(Boolean).join('. ');
+  }, [progress, lockedCards]);
+
+  const getStackCardLabel = useCallback((cardIndex: number) => {
+    const card = stackCards[cardIndex];
+    return card ? getCardLabel(card) : '';
+  }, [stackCards, getCardLabel]);
 
   const cardElements = useMemo(
-    () => stackCards.map((card) => (
-      card.id === '1'
-        ? <ScrollPreviewCard key={card.id} />
-        : <Card key={card.id} card={card} />
-    )),
-    [stackCards]
+    () => stackCards.map((card) => <Card key={card.id} card={card} lockedBy={lockedCards.get(card.id)} />),
+    [stackCards, lockedCards]
   );
 
   const desktopRenderCards = useMemo(() => {
@@ -399,7 +483,20 @@ function App() {
     isDesktopWheelActive,
   ]);
 
+  const hoveredDesktopCard = hoveredDesktopSlot === null
+    ? undefined
+    : desktopRenderCards.find((item) => item.slot === hoveredDesktopSlot)?.entry.card;
+  const desktopCenterCard = cardById.get(deck.desktopCenterId);
+
+  useEffect(() => {
+    if (!isDesktop) return;
+    preloadCard(hoveredDesktopCard ?? desktopCenterCard);
+  }, [isDesktop, hoveredDesktopCard, desktopCenterCard, preloadCard]);
+
   const homeHidden = Boolean(activeScratchCard);
+  const ActiveOverlay = activeScratchCard
+    ? getInteraction(activeScratchCard.interaction).Overlay
+    : null;
 
   return (
     <div
@@ -528,7 +625,7 @@ function App() {
                 scale = DESKTOP_HOVER_SCALE;
                 top = desktopHoverTop;
               } else if (hasHoveredCard && sideRank > 0) {
-                rotation = directionFromHovered < 0 ? -neighborTilt : neighborTilt;
+                rotation = reducedMotion ? 0 : directionFromHovered < 0 ? -neighborTilt : neighborTilt;
                 top = desktopDefaultCardTop + neighborSink;
                 scale = neighborScale;
               }
@@ -549,11 +646,19 @@ function App() {
               return (
                 <div
                   key={item.instanceKey}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={getCardLabel(item.entry.card)}
                   onClick={() => {
                     if (item.entry.kind === 'card') {
                       openScratchForCard(item.entry.card);
                     }
                   }}
+                  onKeyDown={(event) => {
+                    if (event.key !== 'Enter' && event.key !== ' ') return;
+                    event.preventDefault();
+                    openScratchForCard(item.entry.card);
+                  }}
                   style={{
                     position: 'absolute',
                     left: '50%',
@@ -571,16 +676,12 @@ function App() {
                     backgroundColor: 'transparent',
                     zIndex,
                     pointerEvents: 'auto',
-                    cursor: 'pointer',
+                    cursor: lockedCards.has(item.entry.id) ? 'not-allowed' : 'pointer',
                     willChange: 'transform',
                     backfaceVisibility: 'hidden',
                   }}
                 >
-                  {item.entry.id === '1' ? (
-                    <ScrollPreviewCard />
-                  ) : (
-                    <Card card={item.entry.card} />
-                  )}
+                  <Card card={item.entry.card} lockedBy={lockedCards.get(item.entry.id)} />
                 </div>
               );
             })}
@@ -675,6 +776,7 @@ function App() {
                 }}
               >
                 <Stack
+                  key={stackKey}
                   cards={cardElements}
                   cardWidth={cardSize.width}
                   cardHeight={cardSize.height}
@@ -682,6 +784,8 @@ function App() {
                   sensitivity={100}
                   onCardTap={handleCardTap}
                   onCardChange={handleCardChange}
+                  ariaLabel="Card stack. Use arrow keys to browse, Enter to open."
+                  getCardLabel={getStackCardLabel}
                 />
               </div>
             </div>
@@ -699,11 +803,21 @@ function App() {
             }}
           >
             {[...stackCards].reverse().map((card) => {
-              const solved = solvedCardIds.has(card.id);
-              const usesCardColorOutline = card.id === '2' || card.id === '3';
+              const cardProgress = progress.cards[card.id];
+              const solved = isCardSolved(cardProgress);
+              const { title, outlineDot } = getInteraction(card.interaction);
+              const usesCardColorOutline = Boolean(outlineDot);
+              const dotLabel = [
+                title,
+                lockedCards.has(card.id) ? 'locked' : solved ? 'solved' : 'not solved yet',
+                formatCardBests(card.interaction, cardProgress),
+              ].filter(Boolean).join(' · ');
               return (
                 <span
                   key={card.id}
+                  role="img"
+                  title={dotLabel}
+                  aria-label={dotLabel}
                   style={{
                     width: 8,
                     height: 8,
@@ -722,45 +836,157 @@ function App() {
         </div>
       )}
 
+      {!homeHidden && (
+        <div
+          style={{
+            position: 'fixed',
+            left: isDesktop ? 72 : 'max(env(safe-area-inset-left), 24px)',
+            bottom: isDesktop ? 40 : 'max(env(safe-area-inset-bottom), 24px)',
+            zIndex: 800,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'flex-start',
+            gap: 4,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={!audioSettings.muted}
+              onClick={() => audioService.setMuted(!audioSettings.muted)}
+              style={HOME_SETTING_STYLE}
+            >
+              sound: {audioSettings.muted ? 'off' : 'on'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              aria-label="Volume"
+              value={audioSettings.muted ? 0 : Math.round(audioSettings.volume * 100)}
+              onChange={(event) => audioService.setVolume(Number(event.target.value) / 100)}
+              style={{ width: 72, accentColor: '#000000' }}
+            />
+          </div>
+          {supportsHaptics() && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={hapticsSettings.enabled}
+                onClick={() => {
+                  setHapticsEnabled(!hapticsSettings.enabled);
+                  haptic('tap');
+                }}
+                style={HOME_SETTING_STYLE}
+              >
+                haptics: {hapticsSettings.enabled ? 'on' : 'off'}
+              </button>
+              <input
+                type="range"
+                min={MIN_HAPTIC_INTENSITY * 100}
+                max={MAX_HAPTIC_INTENSITY * 100}
+                step={25}
+                aria-label="Haptic intensity"
+                disabled={!hapticsSettings.enabled}
+                value={Math.round(hapticsSettings.intensity * 100)}
+                onChange={(event) => setHapticsIntensity(Number(event.target.value) / 100)}
+                onPointerUp={() => haptic('success')}
+                style={{ width: 72, accentColor: '#000000' }}
+              />
+            </div>
+          )}
+          <button
+            type="button"
+            role="switch"
+            aria-checked={reducedMotion}
+            onClick={() => setReducedMotion(!reducedMotion)}
+            style={HOME_SETTING_STYLE}
+          >
+            reduce motion: {reducedMotion ? 'on' : 'off'}
+          </button>
+          <button
+            type="button"
+            role="switch"
+            aria-checked={dailySeedActive}
+            onClick={() => window.location.assign(urlWithSeed(dailySeedActive ? null : DAILY_SEED_VALUE))}
+            style={HOME_SETTING_STYLE}
+          >
+            daily challenge: {dailySeedActive ? 'on' : 'off'}
+          </button>
+          {deckMode === 'hard' && (
+            <button
+              type="button"
+              role="switch"
+              aria-checked
+              onClick={leaveHardMode}
+              style={HOME_SETTING_STYLE}
+            >
+              hard mode: on
+            </button>
+          )}
+          {deckComplete && (
+            <button
+              type="button"
+              onClick={() => setFinaleOpen(true)}
+              style={HOME_SETTING_STYLE}
+            >
+              deck cleared: see stats
+            </button>
+          )}
+        </div>
+      )}
+
       <AnimatePresence>
-        {activeScratchCard && activeScratchCard.id === '1' && (
-          <ScrollInteraction
-            key="scroll"
-            cardColor={activeScratchCard.color}
-            onReveal={() => handleCardSolved(activeScratchCard.id)}
-            onClose={() => setActiveScratchCard(null)}
-          />
-        )}
-        {activeScratchCard && activeScratchCard.id === '2' && (
-          <VibeCodingInteraction
-            key="vibecoding"
-            cardColor={activeScratchCard.color}
-            onReveal={() => handleCardSolved(activeScratchCard.id)}
-            onClose={() => setActiveScratchCard(null)}
-          />
-        )}
-        {activeScratchCard && activeScratchCard.id === '3' && (
-          <ReorganizeInteraction
-            key="reorganize"
-            cardColor={activeScratchCard.color}
-            onReveal={() => handleCardSolved(activeScratchCard.id)}
-            onClose={() => setActiveScratchCard(null)}
-          />
-        )}
-        {activeScratchCard && activeScratchCard.id === '9' && (
-          <JournalInteraction
-            key="journal"
-            cardColor={activeScratchCard.color}
-            onReveal={() => handleCardSolved(activeScratchCard.id)}
-            onClose={() => setActiveScratchCard(null)}
-          />
+        {activeScratchCard && ActiveOverlay && (
+          <OverlayFocusTrap
+            key={activeScratchCard.interaction}
+            label={activeScratchCard.headline}
+            onEscape={closeActiveCard}
+          >
+            <InteractionErrorBoundary card={activeScratchCard} onBack={closeActiveCard}>
+              <Suspense fallback={<InteractionLoading card={activeScratchCard} />}>
+                <StreamRoundContext.Provider value={Math.max(0, (cardOpens[activeScratchCard.id] ?? 1) - 1)}>
+                  <ActiveOverlay
+                    card={activeScratchCard}
+                    cardColor={activeScratchCard.color}
+                    onReveal={() => handleReveal(activeScratchCard.id)}
+                    onClose={closeActiveCard}
+                  />
+                </StreamRoundContext.Provider>
+              </Suspense>
+            </InteractionErrorBoundary>
+            <AnimatePresence>
+              {rewardCard && rewardCard.id === activeScratchCard.id && (
+                <RewardSheet
+                  key={rewardCard.id}
+                  card={rewardCard}
+                  utm={deck.rewardUtm}
+                  onDismiss={clearRewardSheet}
+                />
+              )}
+            </AnimatePresence>
+          </OverlayFocusTrap>
         )}
-        {activeScratchCard && !['1', '2', '3', '9'].includes(activeScratchCard.id) && (
-          <ComingSoonInteraction
-            key="comingsoon"
-            cardColor={activeScratchCard.color}
-            onClose={() => setActiveScratchCard(null)}
-          />
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {finaleOpen && !activeScratchCard && (
+          <OverlayFocusTrap
+            label={deckMode === 'hard' ? 'Hard mode cleared' : 'Deck cleared'}
+            onEscape={() => setFinaleOpen(false)}
+          >
+            <DeckFinale
+              cards={completionCards}
+              progress={progress}
+              mode={deckMode}
+              onResetProgress={handleResetProgress}
+              onReplayHard={handleReplayHard}
+              onClose={() => setFinaleOpen(false)}
+            />
+          </OverlayFocusTrap>
         )}
       </AnimatePresence>
     </div>
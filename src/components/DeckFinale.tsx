@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import type { CardData } from '../data/cards';
+import type { DeckMode, ProgressState } from '../data/progress';
+import { soundSystem } from '../design/sounds';
+import { haptic } from '../utils/haptics';
+import { capParticles, useReducedMotion } from '../utils/reducedMotion';
+import { formatCardBests } from './interactions/registry';
+
+interface DeckFinaleProps {
+  /** Cards that count towards completion, in the order they are listed. */
+  cards: CardData[];
+  progress: ProgressState;
+  mode: DeckMode;
+  onResetProgress: () => void;
+  onReplayHard: () => void;
+  onClose: () => void;
+}
+
+const FINALE_FONT = "'Instrument Serif', 'Times New Roman', serif";
+
+const FINALE_ACTION_STYLE: React.CSSProperties = {
+  flex: 1,
+  padding: '12px 16px',
+  borderRadius: 999,
+  border: '1px solid #000000',
+  fontFamily: FINALE_FONT,
+  fontSize: 18,
+  cursor: 'pointer',
+};
+
+/** Solve time as `<1m`, `12m`, `3h 5m` or `2d 4h`; solves spread over days read better coarse. */
+function formatSolveTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/** Celebration shown once every card is solved, with per-card stats and what to do next. */
+export default function DeckFinale({
+  cards,
+  progress,
+  mode,
+  onResetProgress,
+  onReplayHard,
+  onClose,
+}: DeckFinaleProps) {
+  const reducedMotion = useReducedMotion();
+  const [confirmingReset, setConfirmingReset] = useState(false);
+  // Captured once so the celebration plays a single time, whatever changes while it is open.
+  const [celebration] = useState(() => ({
+    colors: [...new Set(cards.map((card) => card.color))],
+    reducedMotion,
+  }));
+
+  useEffect(() => {
+    const { colors, reducedMotion: reduced } = celebration;
+    soundSystem.finale();
+    haptic('success');
+
+    // Loaded here rather than imported so the confetti library stays out of the home screen's bundle.
+    let sideBursts: number | undefined;
+    let cancelled = false;
+    void import('canvas-confetti').then(({ default: confetti }) => {
+      if (cancelled) return;
+      confetti({
+        particleCount: capParticles(140, reduced),
+        spread: 100,
+        origin: { x: 0.5, y: 0.4 },
+        colors,
+        startVelocity: 40,
+        ticks: 200,
+      });
+      sideBursts = window.setTimeout(() => {
+        [60, 120].forEach((angle) => {
+          confetti({
+            particleCount: capParticles(60, reduced),
+            angle,
+            spread: 60,
+            origin: { x: angle < 90 ? 0 : 1, y: 0.6 },
+            colors,
+            startVelocity: 45,
+          });
+        });
+      }, 300);
+    });
+    return () => {
+      cancelled = true;
+      window.clearTimeout(sideBursts);
+    };
+  }, [celebration]);
+
+  return (
+    <motion.div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1100,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: 'rgba(255,255,255,0.92)',
+        padding: 24,
+        boxSizing: 'border-box',
+        overflowY: 'auto',
+      }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <motion.div
+        style={{
+          width: 'min(100%, 420px)',
+          color: '#000000',
+          fontFamily: FINALE_FONT,
+        }}
+        initial={{ y: 24, scale: 0.96 }}
+        animate={{ y: 0, scale: 1 }}
+        transition={{ type: 'spring', stiffness: 220, damping: 22 }}
+      >
+        <h2 style={{ margin: 0, fontSize: 48, fontWeight: 500, lineHeight: 1.1 }}>
+          {mode === 'hard' ? 'Hard mode cleared' : 'Deck cleared'}
+        </h2>
+        <p style={{ margin: '8px 0 24px', fontSize: 18, lineHeight: 1.3 }}>
+          Every compulsion, indulged. Here&apos;s how it went.
+        </p>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 16 }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '1px solid rgba(0,0,0,0.2)' }}>
+              <th style={{ fontWeight: 400, padding: '4px 0' }}>Card</th>
+              <th style={{ fontWeight: 400, padding: '4px 0', textAlign: 'right' }}>Time to solve</th>
+              <th style={{ fontWeight: 400, padding: '4px 0', textAlign: 'right' }}>Attempts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cards.map((card) => {
+              const cardProgress = progress.cards[card.id];
+              const bests = formatCardBests(card.interaction, cardProgress);
+              const solveTime = cardProgress && cardProgress.firstPlayedAt !== null && cardProgress.firstSolvedAt !== null
+                ? formatSolveTime(cardProgress.firstSolvedAt - cardProgress.firstPlayedAt)
+                : '—';
+              return (
+                <tr key={card.id} style={{ borderBottom: '1px solid rgba(0,0,0,0.08)' }}>
+                  <td style={{ padding: '6px 0' }}>
+                    <span
+                      aria-hidden="true"
+                      style={{
+                        display: 'inline-block',
+                        width: 8,
+                        height: 8,
+                        borderRadius: '50%',
+                        backgroundColor: card.color,
+                        marginRight: 8,
+                      }}
+                    />
+                    {card.headline}
+                    {bests && <span style={{ opacity: 0.6 }}> · {bests}</span>}
+                  </td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{solveTime}</td>
+                  <td style={{ padding: '6px 0', textAlign: 'right' }}>{cardProgress?.attempts ?? 0}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div style={{ display: 'flex', gap: 12, marginTop: 28 }}>
+          <button
+            type="button"
+            onClick={() => {
+              if (!confirmingReset) {
+                setConfirmingReset(true);
+                return;
+              }
+              onResetProgress();
+            }}
+            style={{ ...FINALE_ACTION_STYLE, background: '#FFFFFF', color: '#000000' }}
+          >
+            {confirmingReset ? 'tap again to reset' : 'reset progress'}
+          </button>
+          <button
+            type="button"
+            onClick={onReplayHard}
+            style={{ ...FINALE_ACTION_STYLE, background: '#000000', color: '#FFFFFF' }}
+          >
+            replay in hard mode
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            display: 'block',
+            margin: '16px auto 0',
+            padding: 0,
+            background: 'none',
+            border: 'none',
+            fontFamily: FINALE_FONT,
+            fontSize: 14,
+            textDecoration: 'underline',
+            cursor: 'pointer',
+            color: '#000000',
+          }}
+        >
+          back to the deck
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
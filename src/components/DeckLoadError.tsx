@@ -0,0 +1,45 @@
+import { DeckManifestError } from '../data/cards';
+
+interface DeckLoadErrorProps {
+  error: unknown;
+}
+
+/** Rendered instead of the app when no usable deck could be loaded, so a broken build says why. */
+export default function DeckLoadError({ error }: DeckLoadErrorProps) {
+  const problems = error instanceof DeckManifestError
+    ? error.problems
+    : [error instanceof Error ? error.message : String(error)];
+
+  return (
+    <div
+      role="alert"
+      style={{
+        minHeight: '100dvh',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 12,
+        padding: 24,
+        color: '#000000',
+        textAlign: 'center',
+      }}
+    >
+      <p
+        style={{
+          margin: 0,
+          fontFamily: "'Instrument Serif', 'Times New Roman', serif",
+          fontSize: 48,
+          lineHeight: 1.1,
+        }}
+      >
+        the deck didn't load
+      </p>
+      <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: 14, opacity: 0.75, maxWidth: 480 }}>
+        {problems.map((problem) => (
+          <li key={problem}>{problem}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
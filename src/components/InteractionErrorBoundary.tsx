@@ -0,0 +1,136 @@
+import { Component, type ErrorInfo, type ReactNode } from 'react';
+import type { CardData } from '../data/cards';
+import { recordDiagnostic, type DiagnosticSource } from '../data/diagnostics';
+import { retryInteraction } from './interactions/registry';
+import { snapshotDocumentChrome } from '../utils/documentChrome';
+import { InteractionErrorContext } from '../utils/interactionErrors';
+import { SessionSourceContext, type SessionSource } from '../utils/random';
+
+interface InteractionErrorBoundaryProps {
+  card: CardData;
+  onBack: () => void;
+  children: ReactNode;
+}
+
+interface InteractionErrorBoundaryState {
+  crashed: boolean;
+}
+
+const GLITCH_BUTTON_STYLE: React.CSSProperties = {
+  padding: '12px 20px',
+  borderRadius: 999,
+  border: '1px solid #FFFFFF',
+  fontFamily: "'Instrument Serif', 'Times New Roman', serif",
+  fontSize: 18,
+  cursor: 'pointer',
+};
+
+function describeError(error: unknown): { message: string; stack?: string } {
+  if (error instanceof Error) return { message: error.message, stack: error.stack };
+  return { message: String(error) };
+}
+
+/**
+ * Keeps a crashing overlay from taking the app down with it. Catches render errors through
+ * React and errors the interaction's loops and timers report through `InteractionErrorContext`.
+ */
+export default class InteractionErrorBoundary extends Component<
+  InteractionErrorBoundaryProps,
+  InteractionErrorBoundaryState
+> {
+  static contextType = SessionSourceContext;
+  declare context: SessionSource;
+
+  state: InteractionErrorBoundaryState = { crashed: false };
+
+  /** Taken before the interaction mounts, so a crash can't leave the page tinted or scroll-locked. */
+  private restoreDocument = snapshotDocumentChrome();
+
+  static getDerivedStateFromError(): InteractionErrorBoundaryState {
+    return { crashed: true };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    const details = describeError(error);
+    this.recordCrash('render', { ...details, stack: details.stack ?? info.componentStack ?? undefined });
+  }
+
+  componentDidUpdate(_: InteractionErrorBoundaryProps, previous: InteractionErrorBoundaryState) {
+    // Runs after the crashed interaction unmounted, so its half-finished cleanups are overridden.
+    if (this.state.crashed && !previous.crashed) this.restoreDocument();
+  }
+
+  private handleLoopError = (error: unknown) => {
+    if (this.state.crashed) return;
+    this.recordCrash('runtime', describeError(error));
+    this.setState({ crashed: true });
+  };
+
+  private recordCrash(source: DiagnosticSource, details: { message: string; stack?: string }) {
+    const { card } = this.props;
+    recordDiagnostic({ cardId: card.id, interaction: card.interaction, source, seed: this.context.seed, ...details });
+  }
+
+  /** The crashed interaction is already unmounted, so clearing the flag mounts a fresh one. */
+  private retry = () => {
+    retryInteraction(this.props.card.interaction);
+    this.setState({ crashed: false });
+  };
+
+  render() {
+    const { card, onBack, children } = this.props;
+    if (!this.state.crashed) {
+      return <InteractionErrorContext.Provider value={this.handleLoopError}>{children}</InteractionErrorContext.Provider>;
+    }
+
+    return (
+      <div
+        role="alert"
+        style={{
+          position: 'fixed',
+          inset: 0,
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: 12,
+          padding: 24,
+          backgroundColor: card.color,
+          color: '#FFFFFF',
+          textAlign: 'center',
+        }}
+      >
+        <p
+          style={{
+            margin: 0,
+            fontFamily: "'Instrument Serif', 'Times New Roman', serif",
+            fontSize: 48,
+            lineHeight: 1.1,
+          }}
+        >
+          this card glitched
+        </p>
+        <p style={{ margin: 0, fontSize: 14, opacity: 0.75, maxWidth: 320 }}>
+          {card.headline} hit a snag. Your progress is safe.
+        </p>
+        <div style={{ display: 'flex', gap: 12, marginTop: 12 }}>
+          <button
+            type="button"
+            onClick={this.retry}
+            style={{ ...GLITCH_BUTTON_STYLE, background: '#FFFFFF', color: '#000000' }}
+          >
+            try again
+          </button>
+          <button
+            type="button"
+            onClick={onBack}
+            style={{ ...GLITCH_BUTTON_STYLE, background: 'transparent', color: '#FFFFFF' }}
+          >
+            back to deck
+          </button>
+        </div>
+      </div>
+    );
+  }
+}
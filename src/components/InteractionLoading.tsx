@@ -0,0 +1,59 @@
+import { motion } from 'motion/react';
+import type { CardData } from '../data/cards';
+
+interface InteractionLoadingProps {
+  card: CardData;
+}
+
+/** Suspense fallback while an overlay's chunk downloads: the card's color and headline, gently pulsing. */
+export default function InteractionLoading({ card }: InteractionLoadingProps) {
+  return (
+    <motion.div
+      role="status"
+      aria-label={`Loading ${card.headline}`}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 16,
+        backgroundColor: card.color,
+        color: '#FFFFFF',
+      }}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <p
+        style={{
+          margin: 0,
+          fontFamily: "'Instrument Serif', 'Times New Roman', serif",
+          fontSize: 48,
+          lineHeight: 1.2,
+          textAlign: 'center',
+        }}
+      >
+        {card.headline}
+      </p>
+      <div aria-hidden="true" style={{ display: 'flex', gap: 8 }}>
+        {[0, 1, 2].map((index) => (
+          <motion.span
+            key={index}
+            style={{
+              width: 8,
+              height: 8,
+              borderRadius: '50%',
+              backgroundColor: '#FFFFFF',
+            }}
+            animate={{ opacity: [0.25, 1, 0.25] }}
+            transition={{ duration: 1.2, repeat: Infinity, delay: index * 0.2 }}
+          />
+        ))}
+      </div>
+    </motion.div>
+  );
+}
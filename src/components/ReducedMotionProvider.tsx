@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MotionConfig } from 'motion/react';
+import {
+  ReducedMotionContext,
+  prefersReducedMotion,
+  readStoredReducedMotion,
+  subscribeToMotionPreference,
+  writeStoredReducedMotion,
+} from '../utils/reducedMotion';
+
+/**
+ * Owns the reduced-motion setting: an explicit in-app choice wins, otherwise it follows
+ * `prefers-reduced-motion`. Motion components below swap transform animations for fades.
+ */
+export default function ReducedMotionProvider({ children }: { children: React.ReactNode }) {
+  const [storedChoice, setStoredChoice] = useState(readStoredReducedMotion);
+  const [systemPrefers, setSystemPrefers] = useState(prefersReducedMotion);
+
+  useEffect(() => subscribeToMotionPreference(setSystemPrefers), []);
+
+  const setReducedMotion = useCallback((reduced: boolean) => {
+    setStoredChoice(reduced);
+    writeStoredReducedMotion(reduced);
+  }, []);
+
+  const reducedMotion = storedChoice ?? systemPrefers;
+  const value = useMemo(() => ({ reducedMotion, setReducedMotion }), [reducedMotion, setReducedMotion]);
+
+  return (
+    <ReducedMotionContext.Provider value={value}>
+      <MotionConfig reducedMotion={reducedMotion ? 'always' : 'never'}>
+        {children}
+      </MotionConfig>
+    </ReducedMotionContext.Provider>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import type { CardData } from '../data/cards';
+import { recordRewardClicked, recordRewardShown } from '../data/rewardLog';
+
+interface RewardSheetProps {
+  /** A solved card with a `url`; the sheet is its sponsor's call-to-action. */
+  card: CardData;
+  /** UTM parameters from the deck manifest. */
+  utm: Record<string, string>;
+  onDismiss: () => void;
+}
+
+const SHEET_FONT = "'Instrument Serif', 'Times New Roman', serif";
+
+/** Adds the deck's UTM parameters to `url`, leaving any the sponsor link already sets alone. */
+function withUtm(url: string, utm: Record<string, string>, cardId: string): string {
+  try {
+    const link = new URL(url);
+    Object.entries(utm).forEach(([key, value]) => {
+      if (!link.searchParams.has(key)) {
+        link.searchParams.set(key, value.replaceAll('{card}', cardId));
+      }
+    });
+    return link.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** Post-solve sheet shared by every interaction: the card's reward and a link to its sponsor. */
+export default function RewardSheet({ card, utm, onDismiss }: RewardSheetProps) {
+  const loggedCardRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!card.url || loggedCardRef.current === card.id) return;
+    loggedCardRef.current = card.id;
+    recordRewardShown(card.id);
+  }, [card.id, card.url]);
+
+  if (!card.url) return null;
+  const href = withUtm(card.url, utm, card.id);
+
+  return (
+    <motion.div
+      role="region"
+      aria-label={`Reward from ${card.label}`}
+      style={{
+        position: 'fixed',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 1050,
+        display: 'flex',
+        justifyContent: 'center',
+        pointerEvents: 'none',
+      }}
+      initial={{ y: '100%' }}
+      animate={{ y: 0 }}
+      exit={{ y: '100%' }}
+      transition={{ type: 'spring', stiffness: 260, damping: 28 }}
+    >
+      <div
+        style={{
+          width: 'min(100%, 480px)',
+          background: '#FFFFFF',
+          color: '#000000',
+          borderRadius: '20px 20px 0 0',
+          boxShadow: '0 -12px 40px rgba(0,0,0,0.25)',
+          padding: '20px 24px max(env(safe-area-inset-bottom), 20px)',
+          boxSizing: 'border-box',
+          fontFamily: SHEET_FONT,
+          pointerEvents: 'auto',
+          borderTop: `6px solid ${card.color}`,
+        }}
+      >
+        <p style={{ margin: 0, fontSize: 13, opacity: 0.6 }}>
+          Your reward, from {card.label}
+        </p>
+        <p style={{ margin: '4px 0 16px', fontSize: 32, lineHeight: 1.1 }}>
+          {card.reward}
+        </p>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={() => recordRewardClicked(card.id)}
+            style={{
+              flex: 1,
+              padding: '12px 16px',
+              borderRadius: 999,
+              background: card.color,
+              color: '#FFFFFF',
+              textAlign: 'center',
+              textDecoration: 'none',
+              fontSize: 18,
+            }}
+          >
+            Visit {card.label} ↗
+          </a>
+          <button
+            type="button"
+            onClick={onDismiss}
+            style={{
+              padding: 0,
+              background: 'none',
+              border: 'none',
+              fontFamily: SHEET_FONT,
+              fontSize: 14,
+              textDecoration: 'underline',
+              cursor: 'pointer',
+              color: '#000000',
+            }}
+          >
+            not now
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
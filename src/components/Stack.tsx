@@ -1,5 +1,6 @@
 import { motion, useMotionValue, useTransform, type PanInfo } from 'motion/react';
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useId, useRef } from 'react';
+import { useReducedMotion } from '../utils/reducedMotion';
 
 interface CardRotateProps {
   children: React.ReactNode;
@@ -11,6 +12,9 @@ interface CardRotateProps {
   scale: number;
   animationConfig: { stiffness: number; damping: number };
   onTap?: () => void;
+  optionId: string;
+  label?: string;
+  selected: boolean;
 }
 
 function CardRotate({
@@ -23,11 +27,15 @@ function CardRotate({
   scale,
   animationConfig,
   onTap,
+  optionId,
+  label,
+  selected,
 }: CardRotateProps) {
   const x = useMotionValue(0);
   const y = useMotionValue(0);
   const rotateX = useTransform(y, [-100, 100], [30, -30]);
   const rotateY = useTransform(x, [-100, 100], [-30, 30]);
+  const reducedMotion = useReducedMotion();
   const pointerDownRef = useRef<{ x: number; y: number; time: number; pointerId: number } | null>(null);
 
   function handleTapAction() {
@@ -75,6 +83,10 @@ function CardRotate({
 
   return (
     <motion.div
+      id={optionId}
+      role="option"
+      aria-selected={selected}
+      aria-label={label}
       style={{
         position: 'absolute',
         width: '100%',
@@ -83,8 +95,8 @@ function CardRotate({
         touchAction: 'none',
         x,
         y,
-        rotateX,
-        rotateY,
+        rotateX: reducedMotion ? 0 : rotateX,
+        rotateY: reducedMotion ? 0 : rotateY,
         borderRadius: 20,
         overflow: 'hidden',
         boxShadow: '0 10px 40px rgba(0,0,0,0.15)',
@@ -109,11 +121,13 @@ function CardRotate({
         transformOrigin: '90% 90%',
       }}
       initial={false}
-      transition={{
-        type: 'spring',
-        stiffness: animationConfig.stiffness,
-        damping: animationConfig.damping,
-      }}
+      transition={reducedMotion
+        ? { duration: 0.2, ease: 'easeOut' }
+        : {
+          type: 'spring',
+          stiffness: animationConfig.stiffness,
+          damping: animationConfig.damping,
+        }}
     >
       {children}
     </motion.div>
@@ -131,8 +145,24 @@ interface StackProps {
   animationConfig?: { stiffness: number; damping: number };
   onCardChange?: (topIndex: number) => void;
   onCardTap?: (cardIndex: number) => void;
+  /** Accessible name of the stack itself. */
+  ariaLabel?: string;
+  /** Spoken description of a card, by its index in `cards`; the top card's is announced as it changes. */
+  getCardLabel?: (cardIndex: number) => string;
 }
 
+const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
+
 function seededOffset(id: number): number {
   const seed = Math.sin(id * 999.91) * 10000;
   return (seed - Math.floor(seed)) * 10 - 5;
@@ -149,7 +179,10 @@ export default function Stack({
   tapThreshold = 18,
   onCardChange,
   onCardTap,
+  ariaLabel = 'Cards',
+  getCardLabel,
 }: StackProps) {
+  const idPrefix = useId();
   const [stack, setStack] = useState<{ id: number; content: React.ReactNode }[]>(() =>
     cards.map((content, index) => ({ id: index + 1, content }))
   );
@@ -174,6 +207,42 @@ export default function Stack({
     });
   }, [onCardChange]);
 
+  const bringToFront = useCallback((id: number) => {
+    setStack((prev) => {
+      const index = prev.findIndex((card) => card.id === id);
+      if (index < 0 || index === prev.length - 1) return prev;
+      const newStack = [...prev];
+      const [card] = newStack.splice(index, 1);
+      newStack.push(card);
+      setTimeout(() => onCardChange?.(card.id - 1), 0);
+      return newStack;
+    });
+  }, [onCardChange]);
+
+  const topCard = stack[stack.length - 1];
+  const bottomCard = stack[0];
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    if (!topCard) return;
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        event.preventDefault();
+        sendToBack(topCard.id);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        event.preventDefault();
+        bringToFront(bottomCard.id);
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        onCardTap?.(stack.length - 1);
+        break;
+    }
+  }
+
   return (
     <div
       style={{
@@ -188,12 +257,18 @@ export default function Stack({
       }}
     >
       <div
+        role="listbox"
+        tabIndex={0}
+        aria-label={ariaLabel}
+        aria-activedescendant={topCard ? `${idPrefix}-card-${topCard.id}` : undefined}
+        onKeyDown={handleKeyDown}
         style={{
           position: 'relative',
           width: cardWidth,
           height: '100%',
           margin: '0 auto',
           overflow: 'visible',
+          borderRadius: 20,
         }}
       >
         {stack.map((card, index) => {
@@ -213,12 +288,18 @@ export default function Stack({
               scale={scale}
               animationConfig={animationConfig}
               onTap={() => onCardTap?.(index)}
+              optionId={`${idPrefix}-card-${card.id}`}
+              label={getCardLabel?.(card.id - 1)}
+              selected={card === topCard}
             >
               {card.content}
             </CardRotate>
           );
         })}
       </div>
+      <div aria-live="polite" aria-atomic="true" style={VISUALLY_HIDDEN_STYLE}>
+        {topCard && getCardLabel ? getCardLabel(topCard.id - 1) : ''}
+      </div>
     </div>
   );
 }
@@ -2,9 +2,23 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import confetti from 'canvas-confetti';
 import { soundSystem } from '../../design/sounds';
+import { audioService } from '../../utils/audio';
+import { haptic } from '../../utils/haptics';
+import { recordCardScore } from '../../data/progress';
+import {
+  recordLeaderboardRun,
+  runAccuracy,
+  type BugSquashMode,
+  type BugSquashRun,
+} from '../../data/bugSquashLeaderboard';
+import { pickOne, useRng } from '../../utils/random';
+import { capParticles, useReducedMotion } from '../../utils/reducedMotion';
+import { useScheduler, useSchedulerPaused, type ScheduledId } from '../../utils/scheduler';
 import rocketImg from '../../assets/rocket.svg';
 
 interface BugSquashGameProps {
+  cardId: string;
+  mode: BugSquashMode;
   onClose: () => void;
   onComplete?: () => void;
 }
@@ -26,6 +40,29 @@ const PARTICLE_COUNT = 8;
 const PARTICLE_LIFE = 30; // frames
 const FONT = "'SF Mono', 'Fira Code', Consolas, monospace";
 const GAME_CHROME_COLOR = '#000000';
+const BOSS_WIDTH = 140;
+const BOSS_HEIGHT = 40;
+const BOSS_SPEED = 0.6;
+const BOSS_BASE_HP = 5;
+const BOSS_SCORE = 50;
+const ENDLESS_LIVES = 5;
+/** Endless scores run far past sprint ones, so they keep their own card best. */
+const ENDLESS_SCORE_VARIANT = 'endless';
+const WAVE_CLEAR_BONUS = 25;
+const WAVE_BREAK = 2000; // ms
+const WAVE_SPEED_STEP = 0.08;
+const WAVE_SPAWN_STEP = 120; // ms
+const POWER_UP_SIZE = 22;
+const POWER_UP_FALL_SPEED = 2;
+const POWER_UP_DROP_CHANCE = 0.12;
+const POWER_UP_DURATION = 8000; // ms
+const SPREAD_VX = 2.5;
+const SLOW_MO_FACTOR = 0.4;
+const EXTRA_BULLETS = 3;
+const RESULT_LINE_PAUSE = 400; // ms
+const LEADERBOARD_ROW_PAUSE = 80; // ms
+const LEADERBOARD_ROW_PREFIX = '  ';
+const CURRENT_RUN_MARKER = ' ←';
 
 const BUG_TEXTS = [
   'NaN',
@@ -50,6 +87,18 @@ const BUG_TEXTS = [
   'prod down',
 ];
 
+const BOSS_TEXTS = ['segfault', 'heisenbug', 'kernel panic', 'split brain'];
+
+/** Endless mode cycles through these, getting faster and longer on every lap. */
+const WAVES: { name: string; bugs: number; boss: boolean }[] = [
+  { name: 'hotfix friday', bugs: 8, boss: false },
+  { name: 'merge conflict', bugs: 12, boss: false },
+  { name: 'legacy code', bugs: 12, boss: true },
+  { name: 'dependency hell', bugs: 16, boss: false },
+  { name: 'flaky tests', bugs: 18, boss: false },
+  { name: 'prod incident', bugs: 18, boss: true },
+];
+
 // ── Types ────────────────────────────────────────────────────────────────
 
 interface Player {
@@ -61,19 +110,51 @@ interface Player {
 interface Bullet {
   x: number;
   y: number;
+  /** Sideways drift per frame; non-zero only for spread shots. */
+  vx: number;
   active: boolean;
 }
 
 interface Bug {
   x: number;
   y: number;
+  width: number;
+  height: number;
   speed: number;
   text: string;
   wobbleOffset: number;
   wobbleSpeed: number;
+  hp: number;
+  maxHp: number;
+  isBoss: boolean;
   active: boolean;
 }
 
+type PowerUpKind = 'spread' | 'slowMo' | 'extraBullets';
+
+const POWER_UPS: Record<PowerUpKind, { label: string; color: string }> = {
+  spread: { label: 'SPREAD', color: '#4EC9B0' },
+  slowMo: { label: 'SLOW-MO', color: '#569CD6' },
+  extraBullets: { label: '+AMMO', color: '#DCDCAA' },
+};
+
+const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+interface PowerUpDrop {
+  x: number;
+  y: number;
+  kind: PowerUpKind;
+  active: boolean;
+}
+
+interface Wave {
+  name: string;
+  bugCount: number;
+  hasBoss: boolean;
+  speedMultiplier: number;
+  spawnInterval: number;
+}
+
 interface Particle {
   x: number;
   y: number;
@@ -88,8 +169,23 @@ interface GameState {
   bullets: Bullet[];
   bugs: Bug[];
   particles: Particle[];
+  powerUps: PowerUpDrop[];
+  /** Scheduler-clock timestamp each power-up wears off at, so power-ups don't run out while paused. */
+  powerUpUntil: Record<PowerUpKind, number>;
   score: number;
+  bugsSquashed: number;
+  shotsFired: number;
+  hits: number;
   timeLeft: number;
+  /** Endless mode only: zero-based wave index, bugs spawned so far and remaining uptime. */
+  wave: number;
+  waveSpawned: number;
+  waveBossSpawned: boolean;
+  bossesSpawned: number;
+  waveAnnounced: boolean;
+  waveBannerUntil: number;
+  nextSpawnAt: number;
+  lives: number;
   lastBulletTime: number;
   lastSpawnTime: number;
   flashAlpha: number;
@@ -99,9 +195,51 @@ interface GameState {
   gameOver: boolean;
 }
 
+const PAUSE_BUTTON_STYLE: React.CSSProperties = {
+  background: 'none',
+  border: '1px solid #28C840',
+  color: '#28C840',
+  fontFamily: FONT,
+  fontSize: 14,
+  padding: '8px 24px',
+  cursor: 'pointer',
+  letterSpacing: 1,
+};
+
+function ratingForScore(score: number) {
+  if (score >= 200) return '10x engineer';
+  if (score >= 100) return 'senior dev';
+  if (score >= 50) return 'mid level';
+  return 'intern';
+}
+
+function waveAt(index: number): Wave {
+  const base = WAVES[index % WAVES.length];
+  const lap = Math.floor(index / WAVES.length);
+  return {
+    name: lap === 0 ? base.name : `${base.name} x${lap + 1}`,
+    bugCount: base.bugs + lap * 6,
+    hasBoss: base.boss,
+    speedMultiplier: 1 + index * WAVE_SPEED_STEP,
+    spawnInterval: Math.max(SPAWN_INTERVAL_MIN, SPAWN_INTERVAL_START - index * WAVE_SPAWN_STEP),
+  };
+}
+
+function formatLeaderboardRow(run: BugSquashRun, rank: number, isCurrent: boolean) {
+  const date = new Date(run.playedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  const columns = [
+    `${rank}.`.padStart(3),
+    String(run.score).padStart(4),
+    `${run.bugsSquashed} bugs`.padStart(7),
+    `${runAccuracy(run)}%`.padStart(4),
+    date,
+  ];
+  return `${LEADERBOARD_ROW_PREFIX}${columns.join('  ')}${isCurrent ? CURRENT_RUN_MARKER : ''}`;
+}
+
 // ── Sound helpers ────────────────────────────────────────────────────────
 
-function playHitSound(ctx: AudioContext) {
+function playHitSound(ctx: AudioContext, output: AudioNode) {
   try {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
@@ -110,13 +248,13 @@ function playHitSound(ctx: AudioContext) {
     gain.gain.setValueAtTime(0.06, ctx.currentTime);
     gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.06);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output);
     osc.start(ctx.currentTime);
     osc.stop(ctx.currentTime + 0.07);
   } catch { /* noop */ }
 }
 
-function playBugReachSound(ctx: AudioContext) {
+function playBugReachSound(ctx: AudioContext, output: AudioNode) {
   try {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
@@ -125,13 +263,13 @@ function playBugReachSound(ctx: AudioContext) {
     gain.gain.setValueAtTime(0.08, ctx.currentTime);
     gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.15);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output);
     osc.start(ctx.currentTime);
     osc.stop(ctx.currentTime + 0.16);
   } catch { /* noop */ }
 }
 
-function playShootSound(ctx: AudioContext) {
+function playShootSound(ctx: AudioContext, output: AudioNode) {
   try {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
@@ -141,20 +279,27 @@ function playShootSound(ctx: AudioContext) {
     gain.gain.setValueAtTime(0.04, ctx.currentTime);
     gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.08);
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output);
     osc.start(ctx.currentTime);
     osc.stop(ctx.currentTime + 0.09);
   } catch { /* noop */ }
 }
 
+function playSfx(play: (ctx: AudioContext, output: AudioNode) => void) {
+  const ctx = audioService.getContext();
+  const output = audioService.getBus('sfx');
+  if (ctx && output) play(ctx, output);
+}
+
 // ── Component ────────────────────────────────────────────────────────────
 
-export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProps) {
+export default function BugSquashGame({ cardId, mode, onClose, onComplete }: BugSquashGameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameRef = useRef<GameState | null>(null);
-  const rafRef = useRef(0);
-  const timerRef = useRef(0);
-  const audioCtxRef = useRef<AudioContext | null>(null);
+  const scheduler = useScheduler({ holdAfterHidden: true });
+  const rng = useRng('bugSquash');
+  const paused = useSchedulerPaused(scheduler);
+  const timerRef = useRef<ScheduledId | null>(null);
   const rocketImgRef = useRef<HTMLImageElement | null>(null);
 
   const [phase, setPhase] = useState<'playing' | 'results'>('playing');
@@ -170,6 +315,16 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
 
   const onCompleteRef = useRef(onComplete);
   onCompleteRef.current = onComplete;
+  const cardIdRef = useRef(cardId);
+  cardIdRef.current = cardId;
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const reducedMotion = useReducedMotion();
+  const reducedMotionRef = useRef(reducedMotion);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
 
   // Exit fullscreen when leaving game mode.
   useEffect(() => {
@@ -246,8 +401,21 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
     bullets: [],
     bugs: [],
     particles: [],
+    powerUps: [],
+    powerUpUntil: { spread: 0, slowMo: 0, extraBullets: 0 },
     score: 0,
+    bugsSquashed: 0,
+    shotsFired: 0,
+    hits: 0,
     timeLeft: GAME_DURATION,
+    wave: 0,
+    waveSpawned: 0,
+    waveBossSpawned: false,
+    bossesSpawned: 0,
+    waveAnnounced: false,
+    waveBannerUntil: 0,
+    nextSpawnAt: 0,
+    lives: ENDLESS_LIVES,
     lastBulletTime: 0,
     lastSpawnTime: 0,
     flashAlpha: 0,
@@ -272,7 +440,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
     rocketImgRef.current = img;
 
     // Init audio
-    try { audioCtxRef.current = new AudioContext(); } catch { /* noop */ }
+    audioService.getContext();
 
     // Size canvas
     const dpr = window.devicePixelRatio || 1;
@@ -290,83 +458,90 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
     // ── Countdown ────────────────────────────────────────────────────
 
     function playCountdownBlip(freq: number) {
-      const ctx = audioCtxRef.current;
-      if (!ctx) return;
-      try {
-        const osc = ctx.createOscillator();
-        const gain = ctx.createGain();
-        osc.type = 'sine';
-        osc.frequency.value = freq;
-        gain.gain.setValueAtTime(0.06, ctx.currentTime);
-        gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.1);
-        osc.connect(gain);
-        gain.connect(ctx.destination);
-        osc.start(ctx.currentTime);
-        osc.stop(ctx.currentTime + 0.11);
-      } catch { /* noop */ }
+      playSfx((ctx, output) => {
+        try {
+          const osc = ctx.createOscillator();
+          const gain = ctx.createGain();
+          osc.type = 'sine';
+          osc.frequency.value = freq;
+          gain.gain.setValueAtTime(0.06, ctx.currentTime);
+          gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.1);
+          osc.connect(gain);
+          gain.connect(output);
+          osc.start(ctx.currentTime);
+          osc.stop(ctx.currentTime + 0.11);
+        } catch { /* noop */ }
+      });
     }
 
-    const countdownTimers: number[] = [];
-
     // "3" — immediate
     playCountdownBlip(440);
-    try { navigator.vibrate(10); } catch { /* noop */ }
+    haptic('tap');
 
-    countdownTimers.push(window.setTimeout(() => {
+    scheduler.timeout(() => {
       setCountdownValue(2);
       playCountdownBlip(550);
-      try { navigator.vibrate(10); } catch { /* noop */ }
-    }, 1000));
+      haptic('tap');
+    }, 1000);
 
-    countdownTimers.push(window.setTimeout(() => {
+    scheduler.timeout(() => {
       setCountdownValue(1);
       playCountdownBlip(660);
-      try { navigator.vibrate(10); } catch { /* noop */ }
-    }, 2000));
+      haptic('tap');
+    }, 2000);
 
-    countdownTimers.push(window.setTimeout(() => {
+    scheduler.timeout(() => {
       setCountdownValue('GO');
       playCountdownBlip(880);
-      try { navigator.vibrate(10); } catch { /* noop */ }
-    }, 3000));
+      haptic('tap');
+    }, 3000);
 
-    countdownTimers.push(window.setTimeout(() => {
+    scheduler.timeout(() => {
       setCountdownValue(null);
       gameStartedRef.current = true;
       tutorialActiveRef.current = true;
-      tutorialStartTimeRef.current = performance.now();
+      tutorialStartTimeRef.current = scheduler.now();
       setShowShootHint(true);
 
+      // Endless mode has no clock; it runs until production goes down
+      if (modeRef.current === 'endless') return;
+
       // Start the game timer
-      timerRef.current = window.setInterval(() => {
+      timerRef.current = scheduler.interval(() => {
         if (!gameRef.current || gameRef.current.gameOver) return;
         gameRef.current.timeLeft--;
         if (gameRef.current.timeLeft <= 0) {
           gameRef.current.gameOver = true;
         }
       }, 1000);
-    }, 3800));
+    }, 3800);
 
     // ── Input ──────────────────────────────────────────────────────────
 
     function handleInput(clientX: number) {
       const g = gameRef.current;
-      if (!g || g.gameOver || !gameStartedRef.current) return;
+      if (!g || g.gameOver || !gameStartedRef.current || scheduler.isPaused()) return;
 
       // Move ship toward tap X
       g.player.targetX = Math.max(PLAYER_SIZE, Math.min(w - PLAYER_SIZE, clientX));
 
       // Shoot
-      const now = performance.now();
+      const now = scheduler.now();
       const activeBullets = g.bullets.filter(b => b.active).length;
-      if (activeBullets < MAX_BULLETS && now - g.lastBulletTime > BULLET_COOLDOWN) {
+      const maxBullets = MAX_BULLETS + (now < g.powerUpUntil.extraBullets ? EXTRA_BULLETS : 0);
+      if (activeBullets < maxBullets && now - g.lastBulletTime > BULLET_COOLDOWN) {
         g.lastBulletTime = now;
-        g.bullets.push({
-          x: g.player.x,
-          y: g.player.y - PLAYER_SIZE,
-          active: true,
-        });
-        if (audioCtxRef.current) playShootSound(audioCtxRef.current);
+        const spread = now < g.powerUpUntil.spread ? [-SPREAD_VX, 0, SPREAD_VX] : [0];
+        for (const vx of spread) {
+          g.shotsFired++;
+          g.bullets.push({
+            x: g.player.x,
+            y: g.player.y - PLAYER_SIZE,
+            vx,
+            active: true,
+          });
+        }
+        playSfx(playShootSound);
       }
     }
 
@@ -402,16 +577,91 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
 
     // ── Spawn ──────────────────────────────────────────────────────────
 
-    function spawnBug(g: GameState) {
-      const elapsed = GAME_DURATION - g.timeLeft;
-      const speedMultiplier = 1 + elapsed * 0.04;
-      g.bugs.push({
-        x: BUG_WIDTH / 2 + Math.random() * (w - BUG_WIDTH),
+    function createBug(speed: number): Bug {
+      return {
+        x: BUG_WIDTH / 2 + rng() * (w - BUG_WIDTH),
         y: -BUG_HEIGHT,
-        speed: BUG_BASE_SPEED * speedMultiplier * (0.8 + Math.random() * 0.4),
-        text: BUG_TEXTS[Math.floor(Math.random() * BUG_TEXTS.length)],
-        wobbleOffset: Math.random() * Math.PI * 2,
-        wobbleSpeed: 2 + Math.random() * 3,
+        width: BUG_WIDTH,
+        height: BUG_HEIGHT,
+        speed,
+        text: pickOne(rng, BUG_TEXTS),
+        wobbleOffset: rng() * Math.PI * 2,
+        wobbleSpeed: 2 + rng() * 3,
+        hp: 1,
+        maxHp: 1,
+        isBoss: false,
+        active: true,
+      };
+    }
+
+    function spawnBug(g: GameState, speedMultiplier: number) {
+      g.bugs.push(createBug(BUG_BASE_SPEED * speedMultiplier * (0.8 + rng() * 0.4)));
+    }
+
+    function spawnBoss(g: GameState, speedMultiplier: number) {
+      const hp = BOSS_BASE_HP + g.wave;
+      g.bugs.push({
+        ...createBug(BOSS_SPEED * speedMultiplier),
+        x: BOSS_WIDTH / 2 + rng() * (w - BOSS_WIDTH),
+        y: -BOSS_HEIGHT,
+        width: BOSS_WIDTH,
+        height: BOSS_HEIGHT,
+        text: BOSS_TEXTS[g.bossesSpawned % BOSS_TEXTS.length],
+        wobbleSpeed: 1,
+        hp,
+        maxHp: hp,
+        isBoss: true,
+      });
+    }
+
+    function announceWave(g: GameState, now: number) {
+      g.waveAnnounced = true;
+      g.waveBannerUntil = now + WAVE_BREAK;
+      g.nextSpawnAt = now + WAVE_BREAK;
+      playCountdownBlip(880);
+    }
+
+    /** Spawns the current wave's bugs, then its boss, and advances once the field is clear. */
+    function updateWave(g: GameState, now: number) {
+      if (!g.waveAnnounced) {
+        announceWave(g, now);
+        return;
+      }
+
+      const wave = waveAt(g.wave);
+      if (g.waveSpawned < wave.bugCount) {
+        if (now >= g.nextSpawnAt) {
+          spawnBug(g, wave.speedMultiplier);
+          g.waveSpawned++;
+          g.nextSpawnAt = now + wave.spawnInterval;
+        }
+        return;
+      }
+
+      if (wave.hasBoss && !g.waveBossSpawned) {
+        if (now >= g.nextSpawnAt) {
+          spawnBoss(g, wave.speedMultiplier);
+          g.bossesSpawned++;
+          g.waveBossSpawned = true;
+        }
+        return;
+      }
+
+      if (g.bugs.some(b => b.active)) return;
+
+      g.score += WAVE_CLEAR_BONUS;
+      g.wave++;
+      g.waveSpawned = 0;
+      g.waveBossSpawned = false;
+      announceWave(g, now);
+    }
+
+    function maybeDropPowerUp(g: GameState, bug: Bug) {
+      if (!bug.isBoss && rng() >= POWER_UP_DROP_CHANCE) return;
+      g.powerUps.push({
+        x: bug.x,
+        y: bug.y,
+        kind: pickOne(rng, POWER_UP_KINDS),
         active: true,
       });
     }
@@ -423,7 +673,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       if (!g) return;
 
       g.frame++;
-      const now = performance.now();
+      const now = scheduler.now();
 
       // ── Spawn bugs ───────────────────────────────────────────────────
       if (!g.gameOver && gameStartedRef.current) {
@@ -431,21 +681,15 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
           // Tutorial: spawn 1 slow bug
           if (!tutorialBugSpawnedRef.current) {
             tutorialBugSpawnedRef.current = true;
-            g.bugs.push({
-              x: BUG_WIDTH / 2 + Math.random() * (w - BUG_WIDTH),
-              y: -BUG_HEIGHT,
-              speed: 1,
-              text: BUG_TEXTS[Math.floor(Math.random() * BUG_TEXTS.length)],
-              wobbleOffset: Math.random() * Math.PI * 2,
-              wobbleSpeed: 2 + Math.random() * 3,
-              active: true,
-            });
+            g.bugs.push(createBug(1));
           }
           // End tutorial after 3 seconds
-          if (performance.now() - tutorialStartTimeRef.current > 3000) {
+          if (scheduler.now() - tutorialStartTimeRef.current > 3000) {
             tutorialActiveRef.current = false;
             setShowShootHint(false);
           }
+        } else if (modeRef.current === 'endless') {
+          updateWave(g, now);
         } else {
           const elapsed = GAME_DURATION - g.timeLeft;
           const interval = Math.max(
@@ -454,7 +698,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
           );
           if (now - g.lastSpawnTime > interval) {
             g.lastSpawnTime = now;
-            spawnBug(g);
+            spawnBug(g, 1 + elapsed * 0.04);
           }
         }
       }
@@ -467,23 +711,52 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       for (const b of g.bullets) {
         if (!b.active) continue;
         b.y -= BULLET_SPEED;
-        if (b.y < -10) b.active = false;
+        b.x += b.vx;
+        if (b.y < -10 || b.x < -10 || b.x > w + 10) b.active = false;
+      }
+
+      // ── Update power-ups ─────────────────────────────────────────────
+      for (const p of g.powerUps) {
+        if (!p.active) continue;
+        p.y += POWER_UP_FALL_SPEED;
+        if (
+          Math.abs(p.x - g.player.x) < PLAYER_SIZE + POWER_UP_SIZE / 2 &&
+          Math.abs(p.y - g.player.y) < PLAYER_SIZE
+        ) {
+          p.active = false;
+          g.powerUpUntil[p.kind] = now + POWER_UP_DURATION;
+          playCountdownBlip(1320);
+          haptic('progress');
+        } else if (p.y > h) {
+          p.active = false;
+        }
       }
 
       // ── Update bugs ──────────────────────────────────────────────────
+      const timeScale = now < g.powerUpUntil.slowMo ? SLOW_MO_FACTOR : 1;
       for (const bug of g.bugs) {
         if (!bug.active) continue;
-        bug.y += bug.speed;
-        bug.x += Math.sin(g.frame * 0.05 * bug.wobbleSpeed + bug.wobbleOffset) * 0.8;
+        bug.y += bug.speed * timeScale;
+        bug.x += Math.sin(g.frame * 0.05 * bug.wobbleSpeed + bug.wobbleOffset) * 0.8 * timeScale;
 
         // Bug reached bottom
         if (bug.y > h - 40) {
           bug.active = false;
-          g.score = Math.max(0, g.score - 5);
           g.flashAlpha = 0.3;
           g.flashColor = '#FF0000';
-          if (audioCtxRef.current) playBugReachSound(audioCtxRef.current);
-          try { navigator.vibrate(30); } catch { /* noop */ }
+          playSfx(playBugReachSound);
+          haptic('failure');
+
+          if (modeRef.current === 'endless') {
+            g.lives = Math.max(0, g.lives - (bug.isBoss ? 2 : 1));
+            if (g.lives === 0 && !g.gameOver) {
+              g.gameOver = true;
+              g.bugs.forEach(b => { b.active = false; });
+              g.powerUps = [];
+            }
+          } else {
+            g.score = Math.max(0, g.score - 5);
+          }
         }
       }
 
@@ -494,19 +767,30 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
           if (!bug.active) continue;
           // AABB
           if (
-            b.x > bug.x - BUG_WIDTH / 2 &&
-            b.x < bug.x + BUG_WIDTH / 2 &&
-            b.y > bug.y - BUG_HEIGHT / 2 &&
-            b.y < bug.y + BUG_HEIGHT / 2
+            b.x > bug.x - bug.width / 2 &&
+            b.x < bug.x + bug.width / 2 &&
+            b.y > bug.y - bug.height / 2 &&
+            b.y < bug.y + bug.height / 2
           ) {
             b.active = false;
+            g.hits++;
+            bug.hp--;
+
+            if (bug.hp > 0) {
+              playSfx(playHitSound);
+              break;
+            }
+
             bug.active = false;
-            g.score += 10;
+            g.score += bug.isBoss ? BOSS_SCORE : 10;
+            g.bugsSquashed++;
+            if (modeRef.current === 'endless') maybeDropPowerUp(g, bug);
 
-            // Particles
+            // Particles are cosmetic and stay off the seeded stream, so reduced motion can't shift spawns
             const colors = ['#28C840', '#DCDCAA', '#4EC9B0', '#CE9178'];
-            for (let p = 0; p < PARTICLE_COUNT; p++) {
-              const angle = (Math.PI * 2 * p) / PARTICLE_COUNT + Math.random() * 0.5;
+            const particleCount = capParticles(bug.isBoss ? PARTICLE_COUNT * 3 : PARTICLE_COUNT, reducedMotionRef.current);
+            for (let p = 0; p < particleCount; p++) {
+              const angle = (Math.PI * 2 * p) / particleCount + Math.random() * 0.5;
               g.particles.push({
                 x: bug.x,
                 y: bug.y,
@@ -517,14 +801,15 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
               });
             }
 
-            if (audioCtxRef.current) playHitSound(audioCtxRef.current);
-            try { navigator.vibrate(5); } catch { /* noop */ }
+            playSfx(playHitSound);
+            haptic('tick');
 
             // End tutorial on first kill
             if (tutorialActiveRef.current) {
               tutorialActiveRef.current = false;
               setShowShootHint(false);
             }
+            break;
           }
         }
       }
@@ -540,6 +825,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       // ── Cleanup ──────────────────────────────────────────────────────
       g.bullets = g.bullets.filter(b => b.active);
       g.bugs = g.bugs.filter(b => b.active);
+      g.powerUps = g.powerUps.filter(p => p.active);
       g.particles = g.particles.filter(p => p.life > 0);
 
       // Flash decay
@@ -554,7 +840,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
         return;
       }
 
-      rafRef.current = requestAnimationFrame(loop);
+      scheduler.frame(loop);
     }
 
     function draw(c: CanvasRenderingContext2D, g: GameState, cw: number, ch: number) {
@@ -608,20 +894,44 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       // ── Bugs ───────────────────────────────────────────────────────
       for (const bug of g.bugs) {
         // Bug body
-        c.fillStyle = 'rgba(255, 50, 50, 0.15)';
-        c.strokeStyle = '#FF3232';
-        c.lineWidth = 1.5;
-        const bx = bug.x - BUG_WIDTH / 2;
-        const by = bug.y - BUG_HEIGHT / 2;
-        c.fillRect(bx, by, BUG_WIDTH, BUG_HEIGHT);
-        c.strokeRect(bx, by, BUG_WIDTH, BUG_HEIGHT);
+        c.fillStyle = bug.isBoss ? 'rgba(197, 134, 192, 0.2)' : 'rgba(255, 50, 50, 0.15)';
+        c.strokeStyle = bug.isBoss ? '#C586C0' : '#FF3232';
+        c.lineWidth = bug.isBoss ? 2.5 : 1.5;
+        const bx = bug.x - bug.width / 2;
+        const by = bug.y - bug.height / 2;
+        c.fillRect(bx, by, bug.width, bug.height);
+        c.strokeRect(bx, by, bug.width, bug.height);
 
         // Bug text
-        c.fillStyle = '#FF6464';
-        c.font = `bold 12px ${FONT}`;
+        c.fillStyle = bug.isBoss ? '#E3A8DF' : '#FF6464';
+        c.font = `bold ${bug.isBoss ? 14 : 12}px ${FONT}`;
         c.textAlign = 'center';
         c.textBaseline = 'middle';
         c.fillText(bug.text, bug.x, bug.y);
+
+        // Boss HP bar
+        if (bug.isBoss) {
+          c.fillStyle = 'rgba(197, 134, 192, 0.25)';
+          c.fillRect(bx, by - 8, bug.width, 4);
+          c.fillStyle = '#C586C0';
+          c.fillRect(bx, by - 8, bug.width * (bug.hp / bug.maxHp), 4);
+        }
+      }
+
+      // ── Power-ups ──────────────────────────────────────────────────
+      c.font = `bold 10px ${FONT}`;
+      c.textAlign = 'center';
+      c.textBaseline = 'middle';
+      for (const p of g.powerUps) {
+        const { label, color } = POWER_UPS[p.kind];
+        c.strokeStyle = color;
+        c.lineWidth = 1.5;
+        c.shadowColor = color;
+        c.shadowBlur = 8;
+        c.strokeRect(p.x - POWER_UP_SIZE / 2, p.y - POWER_UP_SIZE / 2, POWER_UP_SIZE, POWER_UP_SIZE);
+        c.shadowBlur = 0;
+        c.fillStyle = color;
+        c.fillText(label, p.x, p.y + POWER_UP_SIZE);
       }
 
       // ── Particles ──────────────────────────────────────────────────
@@ -635,7 +945,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       c.globalAlpha = 1;
 
       // ── Flash overlay ──────────────────────────────────────────────
-      if (g.flashAlpha > 0) {
+      if (g.flashAlpha > 0 && !reducedMotionRef.current) {
         c.fillStyle = g.flashColor;
         c.globalAlpha = g.flashAlpha;
         c.fillRect(0, 0, cw, ch);
@@ -663,8 +973,41 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
       c.fillText(`SCORE: ${g.score}`, 16, 50);
 
       c.textAlign = 'right';
-      c.fillStyle = g.timeLeft <= 5 ? '#FF3232' : '#28C840';
-      c.fillText(`TIME: ${g.timeLeft}s`, cw - 16, 50);
+      if (modeRef.current === 'endless') {
+        c.fillStyle = '#28C840';
+        c.fillText(`WAVE ${g.wave + 1}`, cw - 16, 50);
+        c.fillStyle = g.lives <= 1 ? '#FF3232' : '#28C840';
+        c.fillText(`UPTIME ${'■'.repeat(g.lives)}${'□'.repeat(ENDLESS_LIVES - g.lives)}`, cw - 16, 70);
+      } else {
+        c.fillStyle = g.timeLeft <= 5 ? '#FF3232' : '#28C840';
+        c.fillText(`TIME: ${g.timeLeft}s`, cw - 16, 50);
+      }
+
+      // Active power-ups with seconds left
+      const now = scheduler.now();
+      c.textAlign = 'left';
+      c.font = `bold 12px ${FONT}`;
+      let powerUpY = 70;
+      for (const kind of POWER_UP_KINDS) {
+        const remaining = g.powerUpUntil[kind] - now;
+        if (remaining <= 0) continue;
+        c.fillStyle = POWER_UPS[kind].color;
+        c.fillText(`${POWER_UPS[kind].label} ${Math.ceil(remaining / 1000)}s`, 16, powerUpY);
+        powerUpY += 18;
+      }
+
+      // Wave banner
+      if (modeRef.current === 'endless' && now < g.waveBannerUntil) {
+        c.globalAlpha = Math.min(1, (g.waveBannerUntil - now) / 500);
+        c.textAlign = 'center';
+        c.fillStyle = '#28C840';
+        c.font = `bold 20px ${FONT}`;
+        c.fillText(`WAVE ${g.wave + 1}`, cw / 2, ch * 0.35);
+        c.fillStyle = '#DCDCAA';
+        c.font = `14px ${FONT}`;
+        c.fillText(`// ${waveAt(g.wave).name}`, cw / 2, ch * 0.35 + 28);
+        c.globalAlpha = 1;
+      }
 
       // "PRODUCTION DOWN" flash text
       if (g.flashAlpha > 0.1) {
@@ -680,15 +1023,39 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
     // ── End game ─────────────────────────────────────────────────────
 
     function endGame(g: GameState) {
-      clearInterval(timerRef.current);
+      scheduler.cancel(timerRef.current);
+      // Results have no pause screen, so leaving the tab only suspends them until it's back
+      scheduler.setHoldAfterHidden(false);
+      scheduler.resume();
       setPhase('results');
+      const isEndless = modeRef.current === 'endless';
+      const run: BugSquashRun = {
+        score: g.score,
+        bugsSquashed: g.bugsSquashed,
+        shotsFired: g.shotsFired,
+        hits: g.hits,
+        playedAt: Date.now(),
+      };
+      const leaderboard = recordLeaderboardRun(modeRef.current, run);
+
+      // The results screen compares against the table shown beneath it; card progress only feeds stats.
+      // Both modes count for the card: sprint as its default best, endless as the `endless` variant.
+      recordCardScore(cardIdRef.current, g.score, 'higher', isEndless ? ENDLESS_SCORE_VARIANT : undefined);
+      const best = leaderboard.entries[0].score;
+      const isNewBest = leaderboard.rank === 1;
 
       // Type out results
       const lines = [
-        `> session complete`,
-        `> bugs squashed: ${Math.floor(g.score / 10)}`,
+        isEndless ? `> production down in wave ${g.wave + 1}: ${waveAt(g.wave).name}` : `> session complete`,
+        ...(isEndless ? [`> waves cleared: ${g.wave}`] : []),
+        `> bugs squashed: ${run.bugsSquashed}`,
+        `> accuracy: ${runAccuracy(run)}% (${run.hits}/${run.shotsFired} shots)`,
         `> score: ${g.score}`,
-        `> rating: ${g.score >= 200 ? '10x engineer' : g.score >= 100 ? 'senior dev' : g.score >= 50 ? 'mid level' : 'intern'}`,
+        `> rating: ${ratingForScore(g.score)}`,
+        isNewBest ? '> new personal best!' : `> best: ${best}, ${ratingForScore(best)}`,
+        '',
+        `> leaderboard (${modeRef.current})`,
+        ...leaderboard.entries.map((entry, i) => formatLeaderboardRow(entry, i + 1, entry === run)),
         '',
         g.score >= 100 ? '✓ promoted.' : '✓ survived.',
       ];
@@ -698,15 +1065,15 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
         if (lineIdx >= lines.length) {
           // Confetti + close button
           soundSystem.reveal();
-          try { navigator.vibrate([50, 30, 100]); } catch { /* noop */ }
+          haptic('success');
           confetti({
-            particleCount: 80,
+            particleCount: capParticles(80, reducedMotionRef.current),
             spread: 80,
             origin: { y: 0.5, x: 0.5 },
             colors: ['#28C840', '#DCDCAA', '#4EC9B0', '#CE9178', '#C586C0'],
           });
           onCompleteRef.current?.();
-          setTimeout(() => setShowCloseBtn(true), 800);
+          scheduler.timeout(() => setShowCloseBtn(true), 800);
           return;
         }
 
@@ -715,7 +1082,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
 
         if (line === '') {
           setResultLines(prev => [...prev, '']);
-          setTimeout(typeLine, 300);
+          scheduler.timeout(typeLine, 300);
           return;
         }
 
@@ -730,35 +1097,29 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
             return next;
           });
           if (ci < line.length) {
-            setTimeout(typeChar, 20);
+            scheduler.timeout(typeChar, 20);
           } else {
-            setTimeout(typeLine, 400);
+            scheduler.timeout(typeLine, line.startsWith(LEADERBOARD_ROW_PREFIX) ? LEADERBOARD_ROW_PAUSE : RESULT_LINE_PAUSE);
           }
         }
-        setTimeout(typeChar, 20);
+        scheduler.timeout(typeChar, 20);
       }
 
-      setTimeout(typeLine, 600);
+      scheduler.timeout(typeLine, 600);
     }
 
     // Start
-    rafRef.current = requestAnimationFrame(loop);
+    scheduler.frame(loop);
 
     return () => {
-      cancelAnimationFrame(rafRef.current);
-      clearInterval(timerRef.current);
-      countdownTimers.forEach(t => clearTimeout(t));
+      scheduler.cancelAll();
       canvas.removeEventListener('touchstart', onTouchStart);
       canvas.removeEventListener('touchmove', onTouchMove);
       canvas.removeEventListener('touchend', onTouchEnd);
       canvas.removeEventListener('touchcancel', onTouchEnd);
       canvas.removeEventListener('click', onClick);
-      if (audioCtxRef.current) {
-        audioCtxRef.current.close();
-        audioCtxRef.current = null;
-      }
     };
-  }, [initGame]);
+  }, [initGame, rng, scheduler]);
 
   return (
     <motion.div
@@ -812,6 +1173,65 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
         </div>
       )}
 
+      {phase === 'playing' && !paused && (
+        <button
+          type="button"
+          onClick={() => scheduler.pause()}
+          aria-label="Pause"
+          style={{
+            position: 'absolute',
+            top: 44,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            background: 'none',
+            border: 'none',
+            color: '#28C840',
+            fontFamily: FONT,
+            fontSize: 14,
+            padding: '4px 8px',
+            cursor: 'pointer',
+            zIndex: 20,
+          }}
+        >
+          [ || ]
+        </button>
+      )}
+
+      {/* Pause overlay: everything on the scheduler is frozen until resume */}
+      {phase === 'playing' && paused && (
+        <div
+          role="dialog"
+          aria-label="Paused"
+          style={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'center',
+            alignItems: 'center',
+            gap: 24,
+            backgroundColor: 'rgba(10, 10, 10, 0.85)',
+            fontFamily: FONT,
+            zIndex: 30,
+          }}
+        >
+          <div style={{ color: '#28C840', fontSize: 18, fontWeight: 700 }}>
+            {'> process suspended'}
+          </div>
+          <div style={{ color: '#858585', fontSize: 13 }}>
+            {'// bugs are waiting. so is production.'}
+          </div>
+          <div style={{ display: 'flex', gap: 16 }}>
+            <button type="button" autoFocus onClick={() => scheduler.resume()} style={PAUSE_BUTTON_STYLE}>
+              [ resume ]
+            </button>
+            <button type="button" onClick={onClose} style={{ ...PAUSE_BUTTON_STYLE, borderColor: '#858585', color: '#858585' }}>
+              [ quit ]
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Tutorial shoot hint */}
       <AnimatePresence>
         {showShootHint && (
@@ -873,6 +1293,7 @@ export default function BugSquashGame({ onClose, onComplete }: BugSquashGameProp
                     whiteSpace: 'pre',
                     color: line.startsWith('✓') ? '#4EC9B0' :
                            line.startsWith('> rating') ? '#C586C0' :
+                           line.startsWith('> new personal best') || line.endsWith(CURRENT_RUN_MARKER) ? '#DCDCAA' :
                            '#28C840',
                     fontWeight: line.startsWith('✓') ? 600 : 400,
                     fontSize: line.startsWith('✓') ? 16 : 14,
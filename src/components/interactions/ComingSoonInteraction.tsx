@@ -1,12 +1,16 @@
 import { useCallback } from 'react';
 import { motion, type PanInfo } from 'motion/react';
+import type { CardData } from '../../data/cards';
+import { formatUnlockDate } from '../../data/cardSchedule';
 
 interface ComingSoonInteractionProps {
+  card: CardData;
   cardColor: string;
   onClose: () => void;
 }
 
 export default function ComingSoonInteraction({
+  card,
   cardColor,
   onClose,
 }: ComingSoonInteractionProps) {
@@ -73,7 +77,9 @@ export default function ComingSoonInteraction({
           touchAction: 'manipulation',
           display: 'flex',
           alignItems: 'center',
+          flexDirection: 'column',
           justifyContent: 'center',
+          gap: 12,
         }}
         initial={{ opacity: 0, y: 20, scale: 0.94 }}
         animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -95,6 +101,18 @@ export default function ComingSoonInteraction({
         >
           Coming soon
         </span>
+        {card.availableFrom !== undefined && (
+          <span
+            style={{
+              color: 'rgba(255,255,255,0.7)',
+              fontSize: 16,
+              lineHeight: 1.4,
+              textAlign: 'center',
+            }}
+          >
+            {card.headline} unlocks {formatUnlockDate(card.availableFrom)}
+          </span>
+        )}
       </motion.div>
     </motion.div>
   );
@@ -1,4 +1,24 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  formatEntryDate,
+  journalToMarkdown,
+  journalToPlainText,
+  readJournalArchive,
+  readKeepCopy,
+  saveJournalEntry,
+  writeKeepCopy,
+  type ArchivedWord,
+  type ExportFormat,
+  type FormatSnapshot,
+  type JournalEntry,
+  type TextAlignMode,
+} from '../../data/journalArchive';
+import { audioService, type AudioBus } from '../../utils/audio';
+import { downloadTextFile } from '../../utils/download';
+import { haptic } from '../../utils/haptics';
+import { useErrorGuard } from '../../utils/interactionErrors';
+import { useSessionSource } from '../../utils/random';
+import { capParticles, useReducedMotion } from '../../utils/reducedMotion';
 
 interface JournalProps {
   onClose: () => void;
@@ -6,19 +26,19 @@ interface JournalProps {
   onReveal?: () => void;
 }
 
-type TextAlignMode = 'left' | 'center' | 'right';
-
 type LetterRecord = {
   id: number;
   char: string;
   wordId: number | null;
   line: number;
   opacity: number;
+  x: number;
   y: number;
   blur: number;
   dissolving: boolean;
   dissolveDelay: number;
   dissolveDrift: number;
+  dissolveDriftX: number;
   particlesSpawned: boolean;
   bold: boolean;
   italic: boolean;
@@ -47,17 +67,66 @@ type ParticleRecord = {
   duration: number;
 };
 
-type FormatSnapshot = {
-  bold: boolean;
-  italic: boolean;
-  size: number;
-  align: TextAlignMode;
+type DissolvePreset = 'inkBleed' | 'ash' | 'wind' | 'never';
+
+type DissolveSettings = {
+  preset: DissolvePreset;
+  lifetimeMs: number;
 };
 
+type DissolveStyle = {
+  label: string;
+  blur: number;
+  particles: boolean;
+  maxParticles: number;
+  letterDrift: () => { x: number; y: number };
+  particleDrift: () => { dx: number; dy: number };
+};
+
+/** Default timing; the lifetime slider scales all three proportionally. */
 const DISSOLVE_WORD_MS = 3000;
 const DISSOLVE_FAST_WORD_MS = 1000;
 const DISSOLVE_FAST_AFTER_MS = 2000;
-const MAX_PARTICLES = 100;
+const LIFETIME_MIN_MS = 1000;
+const LIFETIME_MAX_MS = 10000;
+const LIFETIME_STEP_MS = 500;
+const DISSOLVE_SETTINGS_STORAGE_KEY = 'journalDissolveSettings';
+const DISSOLVE_PRESETS: Record<DissolvePreset, DissolveStyle> = {
+  inkBleed: {
+    label: 'ink bleed',
+    blur: 6,
+    particles: false,
+    maxParticles: 0,
+    letterDrift: () => ({ x: 0, y: 0 }),
+    particleDrift: () => ({ dx: 0, dy: 0 }),
+  },
+  ash: {
+    label: 'ash',
+    blur: 2,
+    particles: true,
+    maxParticles: 100,
+    letterDrift: () => ({ x: 0, y: 4 + Math.random() * 6 }),
+    particleDrift: () => ({ dx: Math.random() * 20 - 10, dy: 5 + Math.random() * 10 }),
+  },
+  wind: {
+    label: 'wind',
+    blur: 1,
+    particles: true,
+    maxParticles: 140,
+    letterDrift: () => ({ x: 24 + Math.random() * 24, y: Math.random() * 4 - 2 }),
+    particleDrift: () => ({ dx: 30 + Math.random() * 30, dy: Math.random() * 8 - 4 }),
+  },
+  never: {
+    label: 'never',
+    blur: 0,
+    particles: false,
+    maxParticles: 0,
+    letterDrift: () => ({ x: 0, y: 0 }),
+    particleDrift: () => ({ dx: 0, dy: 0 }),
+  },
+};
+const DISSOLVE_PRESET_KEYS = Object.keys(DISSOLVE_PRESETS) as DissolvePreset[];
+const DEFAULT_DISSOLVE_SETTINGS: DissolveSettings = { preset: 'ash', lifetimeMs: DISSOLVE_WORD_MS };
 const MAX_DISSOLVE_TICKS_PER_WINDOW = 8;
 const DISSOLVE_TICK_WINDOW_MS = 100;
 const SIZE_STEPS = [18, 24, 32] as const;
@@ -71,16 +140,41 @@ function easeIn(progress: number) {
   return progress * progress;
 }
 
-function supportsVibrate() {
-  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+function readDissolveSettings(): DissolveSettings {
+  if (typeof window === 'undefined') return DEFAULT_DISSOLVE_SETTINGS;
+  try {
+    const stored = localStorage.getItem(DISSOLVE_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_DISSOLVE_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<DissolveSettings>;
+    const preset = DISSOLVE_PRESET_KEYS.find((key) => key === parsed.preset) ?? DEFAULT_DISSOLVE_SETTINGS.preset;
+    const lifetimeMs = typeof parsed.lifetimeMs === 'number'
+      ? clamp(parsed.lifetimeMs, LIFETIME_MIN_MS, LIFETIME_MAX_MS)
+      : DEFAULT_DISSOLVE_SETTINGS.lifetimeMs;
+    return { preset, lifetimeMs };
+  } catch {
+    return DEFAULT_DISSOLVE_SETTINGS;
+  }
 }
 
-function safeVibrate(pattern: number | number[]) {
-  if (supportsVibrate()) navigator.vibrate(pattern);
+/** Groups archived words into display lines, taking each line's alignment from its last word. */
+function archivedLines(words: ArchivedWord[]) {
+  const lines: { align: TextAlignMode; words: ArchivedWord[] }[] = [{ align: 'left', words: [] }];
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    line.words.push(word);
+    line.align = word.format.align;
+    if (word.separator === '\n') lines.push({ align: 'left', words: [] });
+  }
+  return lines.filter((line) => line.words.length > 0);
 }
 
 export default function JournalInteraction({ onClose, cardColor, onReveal }: JournalProps) {
   const [fadeEnabled, setFadeEnabled] = useState(true);
+  const [dissolveSettings, setDissolveSettings] = useState<DissolveSettings>(readDissolveSettings);
+  const [showDissolveSettings, setShowDissolveSettings] = useState(false);
+  const dissolveEnabled = fadeEnabled && dissolveSettings.preset !== 'never';
+  const [keepCopy, setKeepCopy] = useState(readKeepCopy);
+  const [archiveEntries, setArchiveEntries] = useState<JournalEntry[] | null>(null);
   const [renderedLetters, setRenderedLetters] = useState<LetterRecord[]>([]);
   const [renderedParticles, setRenderedParticles] = useState<ParticleRecord[]>([]);
   const [isTyping, setIsTyping] = useState(false);
@@ -116,9 +210,17 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
   const particleIdRef = useRef(1);
   const currentWordIdRef = useRef<number | null>(null);
   const currentLineRef = useRef(0);
-  const audioContextRef = useRef<AudioContext | null>(null);
   const dissolveTickWindowRef = useRef({ start: 0, count: 0 });
   const dissolveActiveRef = useRef(false);
+  /** Words kept for this session's archive entry, keyed by word id so edits replace them in place. */
+  const capturedWordsRef = useRef<Map<number, ArchivedWord>>(new Map());
+  const sessionEntryRef = useRef<{ id: string; createdAt: number } | null>(null);
+  const captureWordRef = useRef<(wordId: number, separator: ArchivedWord['separator']) => void>(() => {});
+  const dissolveSettingsRef = useRef(dissolveSettings);
+  const reducedMotion = useReducedMotion();
+  const reducedMotionRef = useRef(reducedMotion);
+  const guard = useErrorGuard();
+  const { now: clock } = useSessionSource();
   const formatRef = useRef<FormatSnapshot>({
     bold: false,
     italic: true,
@@ -140,26 +242,23 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     };
   }, [currentSize, isBold, isItalic, textAlign]);
 
-  const ensureAudioContext = useCallback(() => {
-    if (typeof window === 'undefined') return null;
-    const AudioContextCtor =
-      window.AudioContext ||
-      (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
 
-    if (!AudioContextCtor) return null;
-    if (!audioContextRef.current) {
-      audioContextRef.current = new AudioContextCtor();
-    }
-    const ctx = audioContextRef.current;
-    if (ctx.state === 'suspended') {
-      void ctx.resume();
+  useEffect(() => {
+    dissolveSettingsRef.current = dissolveSettings;
+    try {
+      localStorage.setItem(DISSOLVE_SETTINGS_STORAGE_KEY, JSON.stringify(dissolveSettings));
+    } catch {
+      // ignore storage failures
     }
-    return ctx;
-  }, []);
+  }, [dissolveSettings]);
 
-  const playSine = useCallback((frequency: number, durationMs: number, gainValue: number) => {
-    const ctx = ensureAudioContext();
-    if (!ctx) return;
+  const playSine = useCallback((frequency: number, durationMs: number, gainValue: number, bus: AudioBus = 'sfx') => {
+    const ctx = audioService.getContext();
+    const output = audioService.getBus(bus);
+    if (!ctx || !output) return;
 
     const oscillator = ctx.createOscillator();
     const gainNode = ctx.createGain();
@@ -172,10 +271,10 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     gainNode.gain.exponentialRampToValueAtTime(0.0001, now + duration);
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(output);
     oscillator.start(now);
     oscillator.stop(now + duration);
-  }, [ensureAudioContext]);
+  }, []);
 
   const playSweepSine = useCallback((
     startFrequency: number,
@@ -183,8 +282,9 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     durationMs: number,
     gainValue: number
   ) => {
-    const ctx = ensureAudioContext();
-    if (!ctx) return;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
 
     const oscillator = ctx.createOscillator();
     const gainNode = ctx.createGain();
@@ -198,10 +298,10 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     gainNode.gain.exponentialRampToValueAtTime(0.0001, now + duration);
 
     oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(output);
     oscillator.start(now);
     oscillator.stop(now + duration);
-  }, [ensureAudioContext]);
+  }, []);
 
   const playNoise = useCallback((
     durationMs: number,
@@ -209,8 +309,9 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     centerFrequency: number,
     q: number
   ) => {
-    const ctx = ensureAudioContext();
-    if (!ctx) return;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
 
     const duration = durationMs / 1000;
     const frameCount = Math.max(1, Math.floor(ctx.sampleRate * duration));
@@ -235,10 +336,10 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
     source.connect(filter);
     filter.connect(gainNode);
-    gainNode.connect(ctx.destination);
+    gainNode.connect(output);
     source.start(now);
     source.stop(now + duration);
-  }, [ensureAudioContext]);
+  }, []);
 
   const playTypeSound = useCallback(() => {
     const center = 3500 + (Math.random() * 1000 - 500);
@@ -268,7 +369,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     }
     if (windowState.count >= MAX_DISSOLVE_TICKS_PER_WINDOW) return;
     windowState.count += 1;
-    playSine(800 + Math.random() * 1200, 10, 0.005);
+    playSine(800 + Math.random() * 1200, 10, 0.005, 'ambience');
   }, [playSine]);
 
   const createWord = useCallback(() => {
@@ -299,11 +400,13 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     wordId,
     line: currentLineRef.current,
     opacity: 1,
+    x: 0,
     y: 0,
     blur: 0,
     dissolving: false,
     dissolveDelay: Math.random() * 400,
     dissolveDrift: 4 + Math.random() * 6,
+    dissolveDriftX: 0,
     particlesSpawned: false,
     bold: formatRef.current.bold,
     italic: formatRef.current.italic,
@@ -311,17 +414,83 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     align: formatRef.current.align,
   }), []);
 
+  // ── Keep a copy ───────────────────────────────────────────────────────
+
+  const persistSessionEntry = useCallback(() => {
+    if (!sessionEntryRef.current) {
+      if (capturedWordsRef.current.size === 0) return;
+      sessionEntryRef.current = { id: `journal-${Date.now()}`, createdAt: Date.now() };
+    }
+    saveJournalEntry({ ...sessionEntryRef.current, words: [...capturedWordsRef.current.values()] });
+  }, []);
+
+  const captureWord = useCallback((wordId: number, separator: ArchivedWord['separator']) => {
+    if (!keepCopy) return;
+    const word = wordsRef.current.find((candidate) => candidate.id === wordId);
+    if (!word) return;
+    const letters = lettersRef.current.filter((letter) => letter.wordId === wordId && letter.char.trim() !== '');
+    if (letters.length === 0) return;
+
+    const [first] = letters;
+    capturedWordsRef.current.set(wordId, {
+      text: letters.map((letter) => letter.char).join(''),
+      format: { bold: first.bold, italic: first.italic, size: first.size, align: first.align },
+      separator,
+    });
+    persistSessionEntry();
+  }, [keepCopy, persistSessionEntry]);
+
+  useEffect(() => {
+    captureWordRef.current = captureWord;
+  }, [captureWord]);
+
+  // The word being typed has no separator yet, so keep it when the journal closes
+  useEffect(() => () => {
+    if (currentWordIdRef.current !== null) {
+      captureWordRef.current(currentWordIdRef.current, ' ');
+    }
+  }, []);
+
+  /** A completed word reopened with backspace leaves the archive until it's completed again. */
+  const releaseWord = useCallback((wordId: number) => {
+    if (!capturedWordsRef.current.delete(wordId)) return;
+    persistSessionEntry();
+  }, [persistSessionEntry]);
+
+  const toggleKeepCopy = useCallback(() => {
+    setKeepCopy((previous) => {
+      writeKeepCopy(!previous);
+      return !previous;
+    });
+  }, []);
+
+  const openArchive = useCallback(() => {
+    setArchiveEntries(readJournalArchive().reverse());
+  }, []);
+
+  const exportArchive = useCallback((format: ExportFormat) => {
+    const entries = readJournalArchive();
+    if (entries.length === 0) return;
+    if (format === 'markdown') {
+      downloadTextFile('diary.md', journalToMarkdown(entries), 'text/markdown');
+    } else {
+      downloadTextFile('diary.txt', journalToPlainText(entries), 'text/plain');
+    }
+  }, []);
+
   const restoreWordVisual = useCallback((wordId: number) => {
     lettersRef.current = lettersRef.current.map((letter) => {
       if (letter.wordId !== wordId) return letter;
       return {
         ...letter,
         opacity: 1,
+        x: 0,
         y: 0,
         blur: 0,
         dissolving: false,
         dissolveDelay: Math.random() * 400,
         dissolveDrift: 4 + Math.random() * 6,
+        dissolveDriftX: 0,
         particlesSpawned: false,
       };
     });
@@ -330,18 +499,24 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
   const startAnimationLoop = useCallback(() => {
     if (animationFrameRef.current !== null) return;
 
-    const step = (now: number) => {
+    const step = guard(() => {
+      const now = clock();
       let lettersChanged = false;
       let particlesChanged = false;
 
-      if (fadeEnabled) {
+      if (dissolveEnabled) {
         const lettersById = new Map(lettersRef.current.map((letter) => [letter.id, letter]));
 
         for (const word of wordsRef.current) {
           if (!word.completed || word.startedDissolvingAt === null) continue;
           let allDone = true;
           const wordAge = now - word.startedDissolvingAt;
-          const duration = wordAge >= DISSOLVE_FAST_AFTER_MS ? DISSOLVE_FAST_WORD_MS : DISSOLVE_WORD_MS;
+          const { lifetimeMs, preset } = dissolveSettingsRef.current;
+          const style = DISSOLVE_PRESETS[preset];
+          const lifetimeScale = lifetimeMs / DISSOLVE_WORD_MS;
+          const duration = wordAge >= DISSOLVE_FAST_AFTER_MS * lifetimeScale
+            ? DISSOLVE_FAST_WORD_MS * lifetimeScale
+            : lifetimeMs;
 
           for (const letterId of word.letters) {
             const letter = lettersById.get(letterId);
@@ -356,16 +531,19 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
             const progress = clamp(elapsed / duration, 0, 1);
             const eased = easeIn(progress);
             const nextOpacity = 1 - eased;
+            const nextX = letter.dissolveDriftX * eased;
             const nextY = letter.dissolveDrift * eased;
-            const nextBlur = 2 * eased;
+            const nextBlur = style.blur * eased;
 
             if (
               Math.abs(nextOpacity - letter.opacity) > 0.002 ||
+              Math.abs(nextX - letter.x) > 0.01 ||
               Math.abs(nextY - letter.y) > 0.01 ||
               Math.abs(nextBlur - letter.blur) > 0.01 ||
               !letter.dissolving
             ) {
               letter.opacity = nextOpacity;
+              letter.x = nextX;
               letter.y = nextY;
               letter.blur = nextBlur;
               letter.dissolving = progress < 1;
@@ -375,7 +553,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
             if (progress >= 0.5 && !letter.particlesSpawned && letter.char !== '\n') {
               const markerElement = letterElementRefs.current.get(letter.id);
               const container = typingAreaRef.current;
-              if (markerElement && container) {
+              if (style.particles && markerElement && container) {
                 const markerRect = markerElement.getBoundingClientRect();
                 const containerRect = container.getBoundingClientRect();
                 const baseX = markerRect.left - containerRect.left + markerRect.width / 2;
@@ -383,21 +561,23 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
                 const amount = 2 + Math.floor(Math.random() * 2);
 
                 for (let index = 0; index < amount; index += 1) {
+                  const { dx, dy } = style.particleDrift();
                   particlesRef.current.push({
                     id: particleIdRef.current++,
                     x: baseX,
                     y: baseY,
                     originX: baseX + (Math.random() * 6 - 3),
                     originY: baseY + (Math.random() * 6 - 3),
-                    dx: Math.random() * 20 - 10,
-                    dy: 5 + Math.random() * 10,
+                    dx,
+                    dy,
                     opacity: 0.3,
                     startAt: now,
                     duration: 600,
                   });
                 }
-                if (particlesRef.current.length > MAX_PARTICLES) {
-                  particlesRef.current = particlesRef.current.slice(-MAX_PARTICLES);
+                const maxParticles = capParticles(style.maxParticles, reducedMotionRef.current);
+                if (particlesRef.current.length > maxParticles) {
+                  particlesRef.current = particlesRef.current.slice(-maxParticles);
                 }
                 particlesChanged = true;
               }
@@ -433,7 +613,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
       }
 
       const hasDissolvingWords =
-        fadeEnabled &&
+        dissolveEnabled &&
         wordsRef.current.some(
           (word) => word.completed && word.startedDissolvingAt !== null && !word.isDissolved
         );
@@ -456,42 +636,45 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
           syncRenderState();
         }
       }
-    };
+    });
 
     animationFrameRef.current = requestAnimationFrame(step);
-  }, [fadeEnabled, playDissolveTickSound, syncRenderState]);
+  }, [clock, dissolveEnabled, guard, playDissolveTickSound, syncRenderState]);
 
   const startWordDissolve = useCallback((word: WordRecord, now: number) => {
-    if (!fadeEnabled || word.startedDissolvingAt !== null || word.letters.length === 0) return;
+    if (!dissolveEnabled || word.startedDissolvingAt !== null || word.letters.length === 0) return;
 
     word.startedDissolvingAt = now;
     word.isDissolved = false;
     const letterIdSet = new Set(word.letters);
+    const style = DISSOLVE_PRESETS[dissolveSettingsRef.current.preset];
     lettersRef.current = lettersRef.current.map((letter) => {
       if (!letterIdSet.has(letter.id)) return letter;
+      const drift = style.letterDrift();
       return {
         ...letter,
         dissolving: true,
         dissolveDelay: Math.random() * 400,
-        dissolveDrift: 4 + Math.random() * 6,
+        dissolveDrift: drift.y,
+        dissolveDriftX: drift.x,
         particlesSpawned: false,
       };
     });
 
     playDissolveStartSound();
-    safeVibrate(1);
+    haptic('tick');
     dissolveActiveRef.current = true;
     startAnimationLoop();
-  }, [fadeEnabled, playDissolveStartSound, startAnimationLoop]);
+  }, [dissolveEnabled, playDissolveStartSound, startAnimationLoop]);
 
   const ensureCompletedWordsDissolving = useCallback((now: number) => {
-    if (!fadeEnabled) return;
+    if (!dissolveEnabled) return;
     for (const word of wordsRef.current) {
       if (!word.completed || word.letters.length === 0 || word.startedDissolvingAt !== null) continue;
       if (word.id === currentWordIdRef.current) continue;
       startWordDissolve(word, now);
     }
-  }, [fadeEnabled, startWordDissolve]);
+  }, [dissolveEnabled, startWordDissolve]);
 
   const completeCurrentWord = useCallback((now: number) => {
     const currentWord = wordsRef.current.find((word) => word.id === currentWordIdRef.current);
@@ -499,24 +682,26 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
     currentWord.completed = true;
     currentWord.isDissolved = false;
-    if (fadeEnabled) {
+    if (dissolveEnabled) {
       startWordDissolve(currentWord, now);
     } else {
       currentWord.startedDissolvingAt = null;
     }
     return currentWord.id;
-  }, [fadeEnabled, startWordDissolve]);
+  }, [dissolveEnabled, startWordDissolve]);
 
   const restoreAllLetters = useCallback(() => {
     lettersRef.current = lettersRef.current.map((letter) => ({
       ...letter,
       opacity: 1,
+      x: 0,
       y: 0,
       blur: 0,
       dissolving: false,
       particlesSpawned: false,
       dissolveDelay: Math.random() * 400,
       dissolveDrift: 4 + Math.random() * 6,
+      dissolveDriftX: 0,
     }));
     wordsRef.current = wordsRef.current.map((word) => ({
       ...word,
@@ -530,12 +715,15 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
   const appendCharacter = useCallback((char: string, silent = false, countTowardReveal = true) => {
     if (char === '\r') return;
-    const now = performance.now();
+    const now = clock();
 
     if (char === ' ' || char === '\n') {
       const completedWordId = completeCurrentWord(now);
       const separator = createLetter(char, completedWordId);
       lettersRef.current.push(separator);
+      if (completedWordId !== null) {
+        captureWord(completedWordId, char);
+      }
 
       if (char === '\n') {
         currentLineRef.current += 1;
@@ -545,7 +733,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
       if (!silent) {
         playSpaceSound();
-        safeVibrate(2);
+        haptic('tick');
       }
     } else {
       const currentWord = ensureCurrentWord();
@@ -559,7 +747,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
       if (!silent) {
         playTypeSound();
-        safeVibrate(1);
+        haptic('tick');
       }
     }
 
@@ -574,16 +762,18 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     setHasTypedOnce(true);
     ensureCompletedWordsDissolving(now);
     syncRenderState();
-    if (fadeEnabled) {
+    if (dissolveEnabled) {
       startAnimationLoop();
     }
   }, [
+    captureWord,
+    clock,
     completeCurrentWord,
     createLetter,
     createWord,
     ensureCompletedWordsDissolving,
     ensureCurrentWord,
-    fadeEnabled,
+    dissolveEnabled,
     onReveal,
     playSpaceSound,
     playTypeSound,
@@ -617,6 +807,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
         previousWord.startedDissolvingAt = null;
         previousWord.isDissolved = false;
         restoreWordVisual(previousWord.id);
+        releaseWord(previousWord.id);
         currentWordIdRef.current = previousWord.id;
         setActiveWordId(previousWord.id);
       } else {
@@ -639,11 +830,11 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
 
     if (!silent) {
       playBackspaceSound();
-      safeVibrate(3);
+      haptic('tick');
     }
 
     syncRenderState();
-  }, [createWord, playBackspaceSound, restoreWordVisual, syncRenderState]);
+  }, [createWord, playBackspaceSound, releaseWord, restoreWordVisual, syncRenderState]);
 
   const rebuildFromText = useCallback((nextValue: string) => {
     lettersRef.current = [];
@@ -651,13 +842,20 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     particlesRef.current = [];
     currentLineRef.current = 0;
     currentWordIdRef.current = null;
+    // Word ids are reissued below; only a replay that captures can stand in for the saved copy
+    if (keepCopy) {
+      capturedWordsRef.current.clear();
+    }
 
     createWord();
     for (const char of Array.from(nextValue)) {
       appendCharacter(char, true, false);
     }
+    if (keepCopy) {
+      persistSessionEntry();
+    }
     syncRenderState();
-  }, [appendCharacter, createWord, syncRenderState]);
+  }, [appendCharacter, createWord, keepCopy, persistSessionEntry, syncRenderState]);
 
   const handleInput = useCallback((nextValue: string) => {
     const previousValue = inputValueRef.current;
@@ -687,11 +885,11 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
       typingTimerRef.current = null;
     }, 260);
 
-    if (fadeEnabled) {
-      ensureCompletedWordsDissolving(performance.now());
+    if (dissolveEnabled) {
+      ensureCompletedWordsDissolving(clock());
       startAnimationLoop();
     }
-  }, [appendCharacter, ensureCompletedWordsDissolving, fadeEnabled, rebuildFromText, removeLastCharacter, startAnimationLoop]);
+  }, [appendCharacter, clock, ensureCompletedWordsDissolving, dissolveEnabled, rebuildFromText, removeLastCharacter, startAnimationLoop]);
 
   useEffect(() => {
     if (!currentWordIdRef.current) {
@@ -742,10 +940,6 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
         cancelAnimationFrame(animationFrameRef.current);
         animationFrameRef.current = null;
       }
-      if (audioContextRef.current) {
-        void audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
 
       window.removeEventListener('resize', updateViewportInsets);
       if (visualViewport) {
@@ -765,18 +959,18 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
   }, []);
 
   useEffect(() => {
-    if (fadeEnabled) {
-      ensureCompletedWordsDissolving(performance.now());
+    if (dissolveEnabled) {
+      ensureCompletedWordsDissolving(clock());
       startAnimationLoop();
       return;
     }
     restoreAllLetters();
-  }, [ensureCompletedWordsDissolving, fadeEnabled, restoreAllLetters, startAnimationLoop]);
+  }, [clock, ensureCompletedWordsDissolving, dissolveEnabled, restoreAllLetters, startAnimationLoop]);
 
   const focusInput = useCallback(() => {
     const element = textareaRef.current;
     if (!element) return;
-    void ensureAudioContext();
+    audioService.getContext();
     element.focus({ preventScroll: true });
     const caretAt = element.value.length;
     try {
@@ -784,10 +978,10 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     } catch {
       // Mobile browsers can throw while setting selection on fresh focus.
     }
-  }, [ensureAudioContext]);
+  }, []);
 
   const visibleLetters = useMemo(() => {
-    if (!fadeEnabled) return renderedLetters;
+    if (!dissolveEnabled) return renderedLetters;
     const dissolvedWordIds = new Set(
       wordsRef.current.filter((word) => word.isDissolved).map((word) => word.id)
     );
@@ -795,7 +989,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
       if (letter.wordId === null) return true;
       return !dissolvedWordIds.has(letter.wordId);
     });
-  }, [fadeEnabled, renderedLetters]);
+  }, [dissolveEnabled, renderedLetters]);
 
   const renderedLines = useMemo(() => {
     type Line = { id: number; align: TextAlignMode; letters: LetterRecord[] };
@@ -838,6 +1032,14 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
     lineHeight: 1.8,
     wordBreak: 'break-word' as const,
   };
+  const journalLabelStyle = {
+    fontFamily: "'Lora', 'Instrument Serif', serif",
+    fontStyle: 'italic' as const,
+    fontSize: 11,
+    letterSpacing: 1,
+    textTransform: 'lowercase' as const,
+    color: 'rgba(44,24,16,0.4)',
+  };
   const edgePadding = 40;
   const controlBottom = isDesktopLayout ? edgePadding : Math.max(edgePadding, formatBarBottom);
   const writingAreaBottomPadding = isDesktopLayout
@@ -889,6 +1091,76 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
         ×
       </button>
 
+      <div
+        onPointerDown={(event) => event.stopPropagation()}
+        style={{
+          position: 'fixed',
+          top: edgePadding,
+          left: edgePadding,
+          zIndex: 1020,
+          height: 40,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 16,
+        }}
+      >
+        <button
+          type="button"
+          role="switch"
+          aria-checked={keepCopy}
+          onClick={toggleKeepCopy}
+          style={{
+            background: 'transparent',
+            border: 'none',
+            padding: 0,
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+          }}
+        >
+          <span style={journalLabelStyle}>keep a copy</span>
+          <span
+            style={{
+              width: 28,
+              height: 16,
+              borderRadius: 8,
+              background: keepCopy ? 'rgba(44,24,16,0.25)' : 'rgba(44,24,16,0.1)',
+              transition: 'all 200ms ease',
+              position: 'relative',
+            }}
+          >
+            <span
+              style={{
+                position: 'absolute',
+                top: 2,
+                left: keepCopy ? 14 : 2,
+                width: 12,
+                height: 12,
+                borderRadius: '50%',
+                background: 'rgba(44,24,16,0.3)',
+                transition: 'all 200ms ease',
+              }}
+            />
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={openArchive}
+          style={{
+            ...journalLabelStyle,
+            background: 'transparent',
+            border: 'none',
+            padding: 0,
+            cursor: 'pointer',
+            textDecoration: 'underline',
+            textUnderlineOffset: 3,
+          }}
+        >
+          archive
+        </button>
+      </div>
+
       <button
         type="button"
         onClick={() => setFadeEnabled((previous) => !previous)}
@@ -1072,6 +1344,100 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
             <span style={{ width: 12, height: 1.6, borderRadius: 2, background: 'currentColor' }} />
           </span>
         </button>
+
+        <button
+          type="button"
+          aria-label="Dissolve settings"
+          aria-expanded={showDissolveSettings}
+          onPointerDown={(event) => event.stopPropagation()}
+          onClick={(event) => {
+            event.stopPropagation();
+            setShowDissolveSettings((previous) => !previous);
+          }}
+          style={{
+            width: 32,
+            height: 32,
+            borderRadius: 8,
+            border: 'none',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: showDissolveSettings ? 'rgba(44,24,16,0.08)' : 'transparent',
+            color: showDissolveSettings ? 'rgba(44,24,16,0.6)' : 'rgba(44,24,16,0.25)',
+            fontFamily: "'Lora', 'Instrument Serif', serif",
+            fontStyle: 'italic',
+            fontSize: 15,
+            cursor: 'pointer',
+          }}
+        >
+          ~
+        </button>
+
+        {showDissolveSettings && (
+          <div
+            onPointerDown={(event) => event.stopPropagation()}
+            style={{
+              position: 'absolute',
+              left: 0,
+              bottom: 'calc(100% + 12px)',
+              width: 232,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 12,
+              background: '#FFFFFF',
+              boxShadow: '0 8px 24px rgba(44,24,16,0.12)',
+              borderRadius: 16,
+              padding: 16,
+            }}
+          >
+            <span style={journalLabelStyle}>dissolve</span>
+            <div role="radiogroup" aria-label="Dissolve preset" style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+              {DISSOLVE_PRESET_KEYS.map((preset) => {
+                const selected = dissolveSettings.preset === preset;
+                return (
+                  <button
+                    key={preset}
+                    type="button"
+                    role="radio"
+                    aria-checked={selected}
+                    onClick={() => setDissolveSettings((previous) => ({ ...previous, preset }))}
+                    style={{
+                      border: 'none',
+                      borderRadius: 12,
+                      padding: '4px 10px',
+                      background: selected ? 'rgba(44,24,16,0.12)' : 'rgba(44,24,16,0.04)',
+                      color: selected ? 'rgba(44,24,16,0.8)' : 'rgba(44,24,16,0.4)',
+                      fontFamily: "'Lora', 'Instrument Serif', serif",
+                      fontStyle: 'italic',
+                      fontSize: 13,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {DISSOLVE_PRESETS[preset].label}
+                  </button>
+                );
+              })}
+            </div>
+            <label style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+              <span style={journalLabelStyle}>
+                lifetime {(dissolveSettings.lifetimeMs / 1000).toFixed(1)}s
+              </span>
+              <input
+                type="range"
+                min={LIFETIME_MIN_MS}
+                max={LIFETIME_MAX_MS}
+                step={LIFETIME_STEP_MS}
+                value={dissolveSettings.lifetimeMs}
+                disabled={dissolveSettings.preset === 'never'}
+                onChange={(event) => {
+                  const lifetimeMs = Number(event.target.value);
+                  setDissolveSettings((previous) => ({ ...previous, lifetimeMs }));
+                }}
+                style={{ width: '100%', accentColor: '#2C1810' }}
+              />
+            </label>
+          </div>
+        )}
       </div>
 
       <div
@@ -1093,7 +1459,7 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
           inset: 0,
           paddingLeft: edgePadding,
           paddingRight: edgePadding,
-          paddingTop: edgePadding,
+          paddingTop: edgePadding + 56,
           paddingBottom: writingAreaBottomPadding,
           overflowY: 'auto',
           touchAction: 'manipulation',
@@ -1178,10 +1544,13 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
                   }}
                   style={{
                     display: 'inline',
+                    // Transforms are ignored on inline boxes, so drift uses relative offsets
+                    position: 'relative',
+                    left: letter.x,
+                    top: letter.y,
                     opacity: letter.opacity,
-                    transform: `translateY(${letter.y}px)`,
                     filter: `blur(${letter.blur}px)`,
-                    transition: 'opacity 120ms linear, filter 120ms linear, transform 120ms linear',
+                    transition: 'opacity 120ms linear, filter 120ms linear, left 120ms linear, top 120ms linear',
                     fontFamily: "'Lora', 'Instrument Serif', serif",
                     fontWeight: letter.bold ? 600 : 300,
                     fontStyle: letter.italic ? 'italic' : 'normal',
@@ -1229,6 +1598,79 @@ export default function JournalInteraction({ onClose, cardColor, onReveal }: Jou
         ))}
       </div>
 
+      {archiveEntries && (
+        <div
+          role="dialog"
+          aria-label="Journal archive"
+          onPointerDown={(event) => event.stopPropagation()}
+          style={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: 1030,
+            background: '#FFFFFF',
+            overflowY: 'auto',
+            padding: edgePadding,
+            color: '#2C1810',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 16, height: 40, marginBottom: 24 }}>
+            <button
+              type="button"
+              onClick={() => setArchiveEntries(null)}
+              style={{ ...journalLabelStyle, background: 'transparent', border: 'none', padding: 0, cursor: 'pointer' }}
+            >
+              ← back to writing
+            </button>
+            {archiveEntries.length > 0 && (['markdown', 'text'] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportArchive(format)}
+                style={{
+                  ...journalLabelStyle,
+                  background: 'transparent',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  textDecoration: 'underline',
+                  textUnderlineOffset: 3,
+                }}
+              >
+                {format === 'markdown' ? 'export .md' : 'export .txt'}
+              </button>
+            ))}
+          </div>
+
+          {archiveEntries.length === 0 && (
+            <p style={{ ...textStyleBase, fontStyle: 'italic', fontWeight: 300, fontSize: 18, color: 'rgba(44,24,16,0.3)' }}>
+              nothing kept yet. turn on "keep a copy" and write something.
+            </p>
+          )}
+
+          {archiveEntries.map((entry) => (
+            <section key={entry.id} style={{ marginBottom: 40 }}>
+              <div style={{ ...journalLabelStyle, marginBottom: 8 }}>{formatEntryDate(entry.createdAt)}</div>
+              {archivedLines(entry.words).map((line, lineIndex) => (
+                <div key={lineIndex} style={{ ...textStyleBase, textAlign: line.align }}>
+                  {line.words.map((word, wordIndex) => (
+                    <span
+                      key={wordIndex}
+                      style={{
+                        fontWeight: word.format.bold ? 600 : 300,
+                        fontStyle: word.format.italic ? 'italic' : 'normal',
+                        fontSize: word.format.size,
+                      }}
+                    >
+                      {word.text}{wordIndex < line.words.length - 1 ? ' ' : ''}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+
       <style>{`
         @keyframes journal-cursor-blink {
           0%, 49% { opacity: 0; }
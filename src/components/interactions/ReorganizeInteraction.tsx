@@ -1,10 +1,19 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { motion, AnimatePresence, type PanInfo } from 'motion/react';
+import { motion, AnimatePresence, animate, type PanInfo } from 'motion/react';
 import poemBgTexture from '../../assets/PoemBG.svg';
+import type { CardData } from '../../data/cards';
+import { POEMS, pickNextPoem, readCollectedPoems, recordPoemRevealed, type CollectedPoem } from '../../data/poems';
+import { formatClearTime, recordCardScore, useDeckMode } from '../../data/progress';
+import { audioService } from '../../utils/audio';
+import { haptic } from '../../utils/haptics';
+import { createRng, pickOne, randomBetween, shuffled, useRng, useStreamSeed, type Rng } from '../../utils/random';
+import { useReducedMotion } from '../../utils/reducedMotion';
+import { useScheduler, type ScheduledId } from '../../utils/scheduler';
 
 // ── Types ────────────────────────────────────────────────────────────────
 
 interface ReorganizeProps {
+  card: CardData;
   onClose: () => void;
   cardColor: string;
   onReveal?: () => void;
@@ -67,29 +76,33 @@ const SNAP_MARGIN_X = 28;
 const SNAP_MARGIN_Y = 32;
 const GRID_ZONE_FALLBACK_MARGIN = 84;
 const ITEMS_BEFORE_SORT = 12;
+const TIDY_MODE_STORAGE_KEY = 'reorganizeTidyMode';
+/** Tidy runs carry wrong-drop penalties, so their best time is kept apart from the card's best. */
+const TIDY_SCORE_VARIANT = 'tidy';
+/** Each wrong drop in tidy mode adds this much to the recorded clear time. */
+const WRONG_DROP_PENALTY_MS = 5000;
+const HARD_WRONG_DROP_PENALTY_MS = 15000;
+const BIN_LABELS: Record<ItemType, string> = {
+  notification: 'alerts',
+  tab: 'tabs',
+  social: 'social',
+  loose: 'odds & ends',
+  clothes: 'laundry',
+  papers: 'papers',
+};
 const POEM_BG = '#F6EBD9';
 const POEM_TEXT = '#766E60';
 const POEM_DIVIDER = '#CAB78E';
-const POEM_TITLE = 'A Noiseless Patient Spider';
-const POEM_AUTHOR = 'Walt Whitman';
-const POEM_BODY = `A noiseless patient spider,
-I mark’d where on a little promontory it stood isolated,
-Mark’d how to explore the vacant vast surrounding,
-It launch’d forth filament, filament, filament, out of itself,
-Ever unreeling them, ever tirelessly speeding them.
-
-And you O my soul where you stand,
-Surrounded, detached, in measureless oceans of space,
-Ceaselessly musing, venturing, throwing, seeking the spheres
-to connect them,
-Till the bridge you will need be form’d, till the ductile anchor hold,
-Till the gossamer thread you fling catch somewhere, O my
-soul`;
 
 // ── Helpers ──────────────────────────────────────────────────────────────
 
-function randRange(min: number, max: number) {
-  return min + Math.random() * (max - min);
+function readStoredTidyMode(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(TIDY_MODE_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
 }
 
 function bgForProgress(cleared: number, total: number): string {
@@ -98,7 +111,7 @@ function bgForProgress(cleared: number, total: number): string {
   return POEM_BG;
 }
 
-function generateItems(): ClutterItem[] {
+function generateItems(rng: Rng): ClutterItem[] {
   const items: ClutterItem[] = [];
   let id = 0;
   const vw = typeof window !== 'undefined' ? window.innerWidth : 375;
@@ -123,17 +136,13 @@ function generateItems(): ClutterItem[] {
       slots.push({ col: c, row: r });
     }
   }
-  // Fisher-Yates shuffle
-  for (let i = slots.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [slots[i], slots[j]] = [slots[j], slots[i]];
-  }
+  const shuffledSlots = shuffled(rng, slots);
 
   function nextPos(): { x: number; y: number } {
-    const slot = slots[id % slots.length];
+    const slot = shuffledSlots[id % shuffledSlots.length];
     return {
-      x: Math.max(padX, Math.min(vw - ITEM_FRAME_SIZE - padX, padX + slot.col * cellW + randRange(-jitter, jitter))),
-      y: Math.max(padTop, Math.min(vh - padBottom, padTop + slot.row * cellH + randRange(-jitter, jitter))),
+      x: Math.max(padX, Math.min(vw - ITEM_FRAME_SIZE - padX, padX + slot.col * cellW + randomBetween(rng, -jitter, jitter))),
+      y: Math.max(padTop, Math.min(vh - padBottom, padTop + slot.row * cellH + randomBetween(rng, -jitter, jitter))),
     };
   }
 
@@ -146,10 +155,10 @@ function generateItems(): ClutterItem[] {
       text: NOTIFICATION_TEXTS[i],
       x: pos.x,
       y: pos.y,
-      rotation: randRange(-15, 15),
-      zIndex: Math.floor(randRange(1, 20)),
+      rotation: randomBetween(rng, -15, 15),
+      zIndex: Math.floor(randomBetween(rng, 1, 20)),
       phase: 'swipe',
-      delay: randRange(0, 800),
+      delay: randomBetween(rng, 0, 800),
       color: DOT_COLORS[i % DOT_COLORS.length],
     });
   }
@@ -163,10 +172,10 @@ function generateItems(): ClutterItem[] {
       text: TAB_TEXTS[i],
       x: pos.x,
       y: pos.y,
-      rotation: randRange(-15, 15),
-      zIndex: Math.floor(randRange(1, 20)),
+      rotation: randomBetween(rng, -15, 15),
+      zIndex: Math.floor(randomBetween(rng, 1, 20)),
       phase: 'swipe',
-      delay: randRange(0, 800),
+      delay: randomBetween(rng, 0, 800),
       color: '#4A90D9',
     });
   }
@@ -180,10 +189,10 @@ function generateItems(): ClutterItem[] {
       text: SOCIAL_TEXTS[i],
       x: pos.x,
       y: pos.y,
-      rotation: randRange(-15, 15),
-      zIndex: Math.floor(randRange(1, 20)),
+      rotation: randomBetween(rng, -15, 15),
+      zIndex: Math.floor(randomBetween(rng, 1, 20)),
       phase: 'swipe',
-      delay: randRange(0, 800),
+      delay: randomBetween(rng, 0, 800),
       color: AVATAR_COLORS[i % AVATAR_COLORS.length],
     });
   }
@@ -194,8 +203,8 @@ function generateItems(): ClutterItem[] {
     const pos = nextPos();
     const subtype = clothesSubtypes[i];
     let color: string;
-    if (subtype === 'tshirt') color = CLOTHES_COLORS.tshirt[Math.floor(Math.random() * CLOTHES_COLORS.tshirt.length)];
-    else if (subtype === 'sock') color = CLOTHES_COLORS.sock[Math.floor(Math.random() * CLOTHES_COLORS.sock.length)];
+    if (subtype === 'tshirt') color = pickOne(rng, CLOTHES_COLORS.tshirt);
+    else if (subtype === 'sock') color = pickOne(rng, CLOTHES_COLORS.sock);
     else if (subtype === 'pants') color = '#2C3E6B';
     else color = '#333333';
     items.push({
@@ -205,10 +214,10 @@ function generateItems(): ClutterItem[] {
       text: '',
       x: pos.x,
       y: pos.y,
-      rotation: randRange(-15, 15),
-      zIndex: Math.floor(randRange(1, 20)),
+      rotation: randomBetween(rng, -15, 15),
+      zIndex: Math.floor(randomBetween(rng, 1, 20)),
       phase: 'swipe',
-      delay: randRange(0, 800),
+      delay: randomBetween(rng, 0, 800),
       color,
     });
   }
@@ -219,7 +228,7 @@ function generateItems(): ClutterItem[] {
     const pos = nextPos();
     const subtype = papersSubtypes[i];
     let color: string;
-    if (subtype === 'sticky') color = STICKY_COLORS[Math.floor(Math.random() * STICKY_COLORS.length)];
+    if (subtype === 'sticky') color = pickOne(rng, STICKY_COLORS);
     else if (subtype === 'crumpled') color = '#FFF9C4';
     else if (subtype === 'envelope') color = '#F5F0EB';
     else color = '#FFFFFF';
@@ -227,13 +236,13 @@ function generateItems(): ClutterItem[] {
       id: id++,
       type: 'papers',
       subtype,
-      text: subtype === 'sticky' ? STICKY_TEXTS[Math.floor(Math.random() * STICKY_TEXTS.length)] : '',
+      text: subtype === 'sticky' ? pickOne(rng, STICKY_TEXTS) : '',
       x: pos.x,
       y: pos.y,
-      rotation: randRange(-15, 15),
-      zIndex: Math.floor(randRange(1, 20)),
+      rotation: randomBetween(rng, -15, 15),
+      zIndex: Math.floor(randomBetween(rng, 1, 20)),
       phase: 'swipe',
-      delay: randRange(0, 800),
+      delay: randomBetween(rng, 0, 800),
       color,
     });
   }
@@ -251,10 +260,15 @@ const DRAG_ITEM_STYLE: React.CSSProperties = {
 // ── Component ────────────────────────────────────────────────────────────
 
 export default function ReorganizeInteraction({
+  card,
   onClose,
   onReveal,
 }: ReorganizeProps) {
-  const [items, setItems] = useState<ClutterItem[]>(() => generateItems());
+  const rng = useRng('reorganize');
+  const layoutSeed = useStreamSeed('reorganize:layout');
+  const poemSeed = useStreamSeed('reorganize:poem');
+  // Fresh RNGs rather than the shared stream: StrictMode calls initializers twice in dev
+  const [items, setItems] = useState<ClutterItem[]>(() => generateItems(createRng(layoutSeed)));
   const [gamePhase, setGamePhase] = useState<'swipe' | 'sort' | 'reveal'>('swipe');
   const [gridVisible, setGridVisible] = useState(false);
   const [gridOpacity, setGridOpacity] = useState(1);
@@ -264,12 +278,23 @@ export default function ReorganizeInteraction({
   const [showSwipeHint, setShowSwipeHint] = useState(false);
   const [swipeHintFading, setSwipeHintFading] = useState(false);
   const [showSortHeading, setShowSortHeading] = useState(false);
+  const [clearStats, setClearStats] = useState<{ time: number; best: number; wrongDrops: number | null } | null>(null);
+  /** "Tidy for real": every grid cell only accepts the item type on its label. */
+  const [tidyMode, setTidyMode] = useState(readStoredTidyMode);
+  const [cellBins, setCellBins] = useState<ItemType[]>([]);
+  const [wrongDrops, setWrongDrops] = useState(0);
+  const [rejectedCell, setRejectedCell] = useState<number | null>(null);
+  const [displayedPoem, setDisplayedPoem] = useState(() => pickNextPoem(createRng(poemSeed)));
+  const [collectedPoems, setCollectedPoems] = useState<CollectedPoem[] | null>(null);
+  const reducedMotion = useReducedMotion();
+  const wrongDropPenaltyMs = useDeckMode() === 'hard' ? HARD_WRONG_DROP_PENALTY_MS : WRONG_DROP_PENALTY_MS;
 
-  const audioCtxRef = useRef<AudioContext | null>(null);
   const dismissedCountRef = useRef(0);
   const onRevealRef = useRef(onReveal);
   onRevealRef.current = onReveal;
-  const revealTimersRef = useRef<number[]>([]);
+  const scheduler = useScheduler();
+  const startedAtRef = useRef(0);
+  const rejectTimerRef = useRef<ScheduledId | null>(null);
   const sortItemRefs = useRef<Record<number, HTMLDivElement | null>>({});
   const swipeHintDismissedRef = useRef(false);
 
@@ -288,12 +313,10 @@ export default function ReorganizeInteraction({
     };
   }, []);
 
-  // Cleanup timers
+  // Clear time is measured from mount to the final placement, minus time spent in another tab
   useEffect(() => {
-    return () => {
-      revealTimersRef.current.forEach(id => clearTimeout(id));
-    };
-  }, []);
+    startedAtRef.current = scheduler.now();
+  }, [scheduler]);
 
   // ── Theme-color helper ───────────────────────────────────────────────
   const origThemeRef = useRef<string | null>(null);
@@ -330,34 +353,28 @@ export default function ReorganizeInteraction({
 
   // ── Swipe hint timer ────────────────────────────────────────────────
   useEffect(() => {
-    const timer = setTimeout(() => {
+    const timer = scheduler.timeout(() => {
       if (!swipeHintDismissedRef.current) {
         setShowSwipeHint(true);
       }
     }, 1500);
-    return () => clearTimeout(timer);
-  }, []);
+    return () => scheduler.cancel(timer);
+  }, [scheduler]);
+
+  const poemBg = displayedPoem.background ?? POEM_BG;
 
   useEffect(() => {
     if (!showPoem) return;
-    updateThemeColor(POEM_BG);
-  }, [showPoem, updateThemeColor]);
+    updateThemeColor(poemBg);
+    document.documentElement.style.backgroundColor = poemBg;
+  }, [showPoem, poemBg, updateThemeColor]);
 
   // ── Audio helpers ────────────────────────────────────────────────────
 
-  const ensureAudio = useCallback(() => {
-    if (!audioCtxRef.current) {
-      try { audioCtxRef.current = new AudioContext(); } catch { /* noop */ }
-    }
-    if (audioCtxRef.current?.state === 'suspended') {
-      audioCtxRef.current.resume();
-    }
-    return audioCtxRef.current;
-  }, []);
-
   const playWhoosh = useCallback((itemIndex: number) => {
-    const ctx = ensureAudio();
-    if (!ctx) return;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
     try {
       const duration = 0.06;
       const length = Math.floor(ctx.sampleRate * duration);
@@ -381,15 +398,16 @@ export default function ReorganizeInteraction({
 
       source.connect(bandpass);
       bandpass.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(output);
       source.start(ctx.currentTime);
       source.stop(ctx.currentTime + duration + 0.01);
     } catch { /* noop */ }
-  }, [ensureAudio]);
+  }, []);
 
   const playClick = useCallback(() => {
-    const ctx = ensureAudio();
-    if (!ctx) return;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
     try {
       const osc = ctx.createOscillator();
       const gain = ctx.createGain();
@@ -398,15 +416,35 @@ export default function ReorganizeInteraction({
       gain.gain.setValueAtTime(0.06, ctx.currentTime);
       gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.02);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(output);
       osc.start(ctx.currentTime);
       osc.stop(ctx.currentTime + 0.03);
     } catch { /* noop */ }
-  }, [ensureAudio]);
+  }, []);
+
+  const playReject = useCallback(() => {
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
+    try {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(220, ctx.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(110, ctx.currentTime + 0.14);
+      gain.gain.setValueAtTime(0.08, ctx.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.16);
+      osc.connect(gain);
+      gain.connect(output);
+      osc.start(ctx.currentTime);
+      osc.stop(ctx.currentTime + 0.18);
+    } catch { /* noop */ }
+  }, []);
 
   const playRevealChord = useCallback(() => {
-    const ctx = ensureAudio();
-    if (!ctx) return;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
     try {
       const now = ctx.currentTime;
       for (const freq of [262, 330, 392]) {
@@ -417,12 +455,12 @@ export default function ReorganizeInteraction({
         gain.gain.setValueAtTime(0.06, now);
         gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(output);
         osc.start(now);
         osc.stop(now + 0.32);
       }
     } catch { /* noop */ }
-  }, [ensureAudio]);
+  }, []);
 
   // ── Computed values ──────────────────────────────────────────────────
 
@@ -497,24 +535,27 @@ export default function ReorganizeInteraction({
       const itemBandWidth = columns * ITEM_FRAME_SIZE + (columns - 1) * itemGap;
       const startX = gridLeftX + Math.max(0, (gridRightX - gridLeftX - itemBandWidth) / 2);
       const aboveY = Math.max(72, gridTopY - (dragLayout.desktop ? 168 : 122));
+      // Bins mirror the leftover items, so a fully correct sort always exists
+      setCellBins(shuffled(rng, items.filter(it => it.phase === 'swipe').map(it => it.type)));
       let sortIdx = 0;
-      setItems(prev => prev.map(it => {
+      // Mapped outside a state updater so StrictMode's double call can't draw from the RNG twice
+      setItems(items.map(it => {
         if (it.phase !== 'swipe') return it;
         const col = sortIdx % columns;
         const row = Math.floor(sortIdx / columns);
-        const xPos = startX + col * (ITEM_FRAME_SIZE + itemGap) + randRange(-6, 6);
-        const yPos = aboveY - row * (dragLayout.desktop ? 76 : 66) + randRange(-6, 6);
+        const xPos = startX + col * (ITEM_FRAME_SIZE + itemGap) + randomBetween(rng, -6, 6);
+        const yPos = aboveY - row * (dragLayout.desktop ? 76 : 66) + randomBetween(rng, -6, 6);
         sortIdx++;
-        return { ...it, phase: 'sort' as const, x: xPos, y: yPos, rotation: randRange(-8, 8) };
+        return { ...it, phase: 'sort' as const, x: xPos, y: yPos, rotation: randomBetween(rng, -8, 8) };
       }));
       setGamePhase('sort');
       updateThemeColor(POEM_BG);
-      setTimeout(() => {
+      scheduler.timeout(() => {
         setGridVisible(true);
         setShowSortHeading(true);
       }, 200);
     }
-  }, [gamePhase, dismissedCount, gridCells, dragLayout.desktop, updateThemeColor]);
+  }, [gamePhase, dismissedCount, items, gridCells, dragLayout.desktop, rng, scheduler, updateThemeColor]);
 
   useEffect(() => {
     if (gamePhase === 'sort' && placedCount === 6) {
@@ -524,18 +565,22 @@ export default function ReorganizeInteraction({
       setShowSortHeading(false);
       updateThemeColor(POEM_BG);
       document.documentElement.style.backgroundColor = POEM_BG;
-      const t1 = setTimeout(() => setItemsOpacity(0.5), 0);
-      const t2 = setTimeout(() => setGridOpacity(0), 500);
-      const t3 = setTimeout(() => setItemsOpacity(0), 800);
-      const t4 = setTimeout(() => {
+      scheduler.timeout(() => setItemsOpacity(0.5), 0);
+      scheduler.timeout(() => setGridOpacity(0), 500);
+      scheduler.timeout(() => setItemsOpacity(0), 800);
+      scheduler.timeout(() => {
+        const clearTime = scheduler.now() - startedAtRef.current;
+        const penalty = tidyMode ? wrongDrops * wrongDropPenaltyMs : 0;
+        const { best } = recordCardScore(card.id, clearTime + penalty, 'lower', tidyMode ? TIDY_SCORE_VARIANT : undefined);
+        setClearStats({ time: clearTime + penalty, best, wrongDrops: tidyMode ? wrongDrops : null });
+        recordPoemRevealed(displayedPoem.id);
         setShowPoem(true);
         playRevealChord();
-        try { navigator.vibrate([50, 30, 100]); } catch { /* noop */ }
+        haptic('success');
         onRevealRef.current?.();
       }, 1400);
-      revealTimersRef.current.push(t1, t2, t3, t4);
     }
-  }, [gamePhase, placedCount, playRevealChord, updateThemeColor]);
+  }, [card.id, gamePhase, placedCount, tidyMode, wrongDrops, wrongDropPenaltyMs, displayedPoem.id, playRevealChord, scheduler, updateThemeColor]);
 
   // ── Swipe handler ────────────────────────────────────────────────────
 
@@ -554,23 +599,18 @@ export default function ReorganizeInteraction({
       if (count + 1 >= 2 && !swipeHintDismissedRef.current) {
         swipeHintDismissedRef.current = true;
         setSwipeHintFading(true);
-        setTimeout(() => setShowSwipeHint(false), 300);
+        scheduler.timeout(() => setShowSwipeHint(false), 300);
       }
 
       playWhoosh(count);
-      if (count < 5) {
-        try { navigator.vibrate(5); } catch { /* noop */ }
-      } else if (count < 11) {
-        try { navigator.vibrate(10); } catch { /* noop */ }
-      } else {
-        try { navigator.vibrate([10, 5, 15]); } catch { /* noop */ }
-      }
+      // Feedback grows as the clutter thins out
+      haptic(count < 5 ? 'tick' : count < 11 ? 'tap' : 'progress');
 
       setItems(prev => prev.map(it =>
         it.id === itemId ? { ...it, phase: 'dismissed' as const } : it
       ));
     }
-  }, [playWhoosh]);
+  }, [playWhoosh, scheduler]);
 
   // ── Sort/snap handler ────────────────────────────────────────────────
 
@@ -643,11 +683,28 @@ export default function ReorganizeInteraction({
 
     if (targetCell < 0) return;
 
+    if (tidyMode && cellBins[targetCell] !== item.type) {
+      // Wrong bin: spring back to where the drag started and flag the cell
+      const node = sortItemRefs.current[itemId];
+      if (node) {
+        animate(node, { x: item.x, y: item.y }, reducedMotion
+          ? { duration: 0.2, ease: 'easeOut' }
+          : { type: 'spring', stiffness: 420, damping: 14 });
+      }
+      playReject();
+      haptic('failure');
+      setWrongDrops(count => count + 1);
+      setRejectedCell(targetCell);
+      scheduler.cancel(rejectTimerRef.current);
+      rejectTimerRef.current = scheduler.timeout(() => setRejectedCell(null), 450);
+      return;
+    }
+
     const cell = gridCells[targetCell];
     const snapX = cell.x + (cell.w - itemWidth) / 2;
     const snapY = cell.y + (cell.h - itemHeight) / 2;
     playClick();
-    try { navigator.vibrate(3); } catch { /* noop */ }
+    haptic('tick');
 
     setOccupiedCells(prev => {
       const next = [...prev];
@@ -659,18 +716,17 @@ export default function ReorganizeInteraction({
         ? { ...it, phase: 'placed' as const, x: snapX, y: snapY, rotation: 0, snappedCell: targetCell }
         : it
     ));
-  }, [items, gridCells, occupiedCells, playClick]);
+  }, [items, gridCells, occupiedCells, tidyMode, cellBins, reducedMotion, playClick, playReject, scheduler]);
 
-  // ── Cleanup ──────────────────────────────────────────────────────────
-
-  useEffect(() => {
-    return () => {
-      if (audioCtxRef.current) {
-        audioCtxRef.current.close();
-        audioCtxRef.current = null;
-      }
-    };
-  }, []);
+  const toggleTidyMode = useCallback(() => {
+    const next = !tidyMode;
+    setTidyMode(next);
+    try {
+      localStorage.setItem(TIDY_MODE_STORAGE_KEY, String(next));
+    } catch {
+      // ignore storage failures
+    }
+  }, [tidyMode]);
 
   // ── Render item content ──────────────────────────────────────────────
 
@@ -988,6 +1044,36 @@ export default function ReorganizeInteraction({
         ×
       </button>
 
+      {/* Tidy mode toggle — locked once the first item is filed */}
+      {gamePhase !== 'reveal' && (
+        <button
+          type="button"
+          role="switch"
+          aria-checked={tidyMode}
+          disabled={placedCount > 0}
+          onClick={(e) => { e.stopPropagation(); toggleTidyMode(); }}
+          onPointerDown={(e) => e.stopPropagation()}
+          style={{
+            position: 'fixed',
+            top: 'max(env(safe-area-inset-top), 16px)',
+            left: 'max(env(safe-area-inset-left), 16px)',
+            zIndex: 1020,
+            height: 40,
+            padding: '0 16px',
+            borderRadius: 20,
+            backgroundColor: tidyMode ? '#AF9771' : 'white',
+            border: 'none',
+            color: tidyMode ? 'white' : '#766E60',
+            fontSize: 13,
+            cursor: placedCount > 0 ? 'default' : 'pointer',
+            opacity: placedCount > 0 ? 0.6 : 1,
+            boxShadow: '0 4px 15px rgba(0,0,0,0.15)',
+          }}
+        >
+          tidy for real{tidyMode && wrongDrops > 0 ? ` · ${wrongDrops} wrong` : ''}
+        </button>
+      )}
+
       {/* Sort footer copy */}
       {showSortHeading && gamePhase === 'sort' && (
         <motion.div
@@ -1026,7 +1112,7 @@ export default function ReorganizeInteraction({
               fontWeight: 400,
             }}
           >
-            Let&apos;s clean up
+            {tidyMode ? 'Each bin takes one kind of thing' : <>Let&apos;s clean up</>}
           </span>
         </motion.div>
       )}
@@ -1043,16 +1129,20 @@ export default function ReorganizeInteraction({
                 top: cell.y,
                 width: cell.w,
                 height: cell.h,
-                border: occupiedCells[i] !== null
-                  ? `${dragLayout.borderWidth}px solid rgba(118,110,96,0.2)`
-                  : `${dragLayout.borderWidth}px dashed rgba(118,110,96,0.3)`,
+                border: rejectedCell === i
+                  ? `${dragLayout.borderWidth}px solid rgba(230,57,70,0.7)`
+                  : occupiedCells[i] !== null
+                    ? `${dragLayout.borderWidth}px solid rgba(118,110,96,0.2)`
+                    : `${dragLayout.borderWidth}px dashed rgba(118,110,96,0.3)`,
                 borderRadius: cell.radius,
                 backgroundColor: 'transparent',
                 transition: 'border-color 300ms ease',
                 overflow: 'hidden',
                 display: 'flex',
+                flexDirection: 'column',
                 alignItems: 'center',
                 justifyContent: 'center',
+                gap: 4,
                 boxSizing: 'border-box',
               }}
             >
@@ -1069,6 +1159,18 @@ export default function ReorganizeInteraction({
                   +
                 </span>
               )}
+              {occupiedCells[i] === null && tidyMode && cellBins[i] && (
+                <span
+                  style={{
+                    fontSize: dragLayout.footerSubtitleSize + 2,
+                    lineHeight: 1.2,
+                    color: rejectedCell === i ? 'rgba(230,57,70,0.8)' : 'rgba(118,110,96,0.6)',
+                    transition: 'color 300ms ease',
+                  }}
+                >
+                  {BIN_LABELS[cellBins[i]]}
+                </span>
+              )}
             </div>
           ))}
         </div>
@@ -1214,7 +1316,8 @@ export default function ReorganizeInteraction({
               alignItems: 'stretch',
               justifyContent: 'center',
               zIndex: 30,
-              backgroundColor: POEM_BG,
+              backgroundColor: poemBg,
+              transition: 'background-color 500ms ease',
               backgroundImage: `url(${poemBgTexture})`,
               backgroundSize: 'auto',
               backgroundPosition: 'top left',
@@ -1286,7 +1389,7 @@ export default function ReorganizeInteraction({
                       textAlign: 'center',
                     }}
                   >
-                    {POEM_BODY}
+                    {displayedPoem.body}
                   </p>
                   {dragLayout.desktop && (
                     <div style={{ display: 'flex', alignItems: 'center', gap: 22 }}>
@@ -1314,7 +1417,7 @@ export default function ReorganizeInteraction({
                       color: '#151515',
                     }}
                   >
-                    {POEM_TITLE}
+                    {displayedPoem.title}
                   </p>
                   <p
                     style={{
@@ -1325,11 +1428,132 @@ export default function ReorganizeInteraction({
                       color: '#151515',
                     }}
                   >
-                    {POEM_AUTHOR}
+                    {displayedPoem.author}
                   </p>
+                  {clearStats && (
+                    <p
+                      style={{
+                        margin: '12px 0 0',
+                        fontFamily: "'Instrument Serif', 'Iowan Old Style', Georgia, serif",
+                        fontSize: dragLayout.poemAuthorSize,
+                        lineHeight: 1.4,
+                        color: '#151515',
+                        opacity: 0.6,
+                      }}
+                    >
+                      {clearStats.wrongDrops === null ? 'cleared' : 'filed'} in {formatClearTime(clearStats.time)}
+                      {clearStats.wrongDrops !== null && (
+                        ` · ${clearStats.wrongDrops} wrong ${clearStats.wrongDrops === 1 ? 'drop' : 'drops'}`
+                        + (clearStats.wrongDrops > 0 ? ` (+${formatClearTime(clearStats.wrongDrops * wrongDropPenaltyMs)})` : '')
+                      )}
+                      {' '}· {clearStats.wrongDrops === null ? 'best' : 'tidy best'}: {formatClearTime(clearStats.best)}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setCollectedPoems(readCollectedPoems())}
+                    style={{
+                      margin: '16px 0 0',
+                      padding: 0,
+                      background: 'none',
+                      border: 'none',
+                      fontFamily: "'Instrument Serif', 'Iowan Old Style', Georgia, serif",
+                      fontSize: dragLayout.poemAuthorSize + 2,
+                      lineHeight: 1.4,
+                      color: POEM_TEXT,
+                      textDecoration: 'underline',
+                      textUnderlineOffset: 3,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    collected poems
+                  </button>
                 </div>
               </div>
             </div>
+
+            {/* Collected poems */}
+            {collectedPoems && (
+              <div
+                role="dialog"
+                aria-label="Collected poems"
+                onClick={() => setCollectedPoems(null)}
+                style={{
+                  position: 'fixed',
+                  inset: 0,
+                  zIndex: 40,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: 'rgba(21,21,21,0.25)',
+                  padding: 24,
+                  boxSizing: 'border-box',
+                }}
+              >
+                <div
+                  onClick={(e) => e.stopPropagation()}
+                  style={{
+                    width: '100%',
+                    maxWidth: 360,
+                    maxHeight: '80dvh',
+                    overflowY: 'auto',
+                    backgroundColor: POEM_BG,
+                    borderRadius: 20,
+                    padding: 24,
+                    boxSizing: 'border-box',
+                    textAlign: 'left',
+                    color: POEM_TEXT,
+                    boxShadow: '0 12px 40px rgba(0,0,0,0.18)',
+                  }}
+                >
+                  <p
+                    style={{
+                      margin: '0 0 16px',
+                      fontFamily: "'Instrument Serif', 'Iowan Old Style', Georgia, serif",
+                      fontSize: 24,
+                      lineHeight: 1.2,
+                      color: '#151515',
+                    }}
+                  >
+                    collected poems · {collectedPoems.length}/{POEMS.length}
+                  </p>
+                  {collectedPoems.map(({ poem, unlockedAt }) => (
+                    <button
+                      key={poem.id}
+                      type="button"
+                      onClick={() => {
+                        setDisplayedPoem(poem);
+                        setCollectedPoems(null);
+                      }}
+                      style={{
+                        display: 'block',
+                        width: '100%',
+                        padding: '10px 0',
+                        background: 'none',
+                        border: 'none',
+                        borderTop: `1px solid ${POEM_DIVIDER}`,
+                        textAlign: 'left',
+                        color: 'inherit',
+                        cursor: 'pointer',
+                        fontWeight: poem.id === displayedPoem.id ? 600 : 400,
+                      }}
+                    >
+                      <span style={{ display: 'block', fontFamily: "'Instrument Serif', 'Iowan Old Style', Georgia, serif", fontSize: 18, color: '#151515' }}>
+                        {poem.title}
+                      </span>
+                      <span style={{ display: 'block', fontSize: 12, opacity: 0.8 }}>
+                        {poem.author} · unlocked {new Date(unlockedAt).toLocaleDateString()}
+                      </span>
+                    </button>
+                  ))}
+                  {collectedPoems.length < POEMS.length && (
+                    <p style={{ margin: '12px 0 0', fontSize: 12, opacity: 0.7 }}>
+                      tidy up again to find the rest
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -1,12 +1,18 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence, type PanInfo } from 'motion/react';
 import confetti from 'canvas-confetti';
+import { audioService } from '../../utils/audio';
+import { haptic } from '../../utils/haptics';
 import { ScratchSoundEngine } from '../../utils/sounds';
+import type { CardData } from '../../data/cards';
+import { createRng, pickOne, randomBetween, useRng, useStreamSeed } from '../../utils/random';
+import { capParticles, useReducedMotion } from '../../utils/reducedMotion';
+import { useScheduler, type ScheduledId } from '../../utils/scheduler';
 
 interface ScratchInteractionProps {
+  card: CardData;
   cardColor: string;
-  onReveal: () => void;
-  revealText: string;
+  onReveal?: () => void;
   onClose?: () => void;
 }
 
@@ -52,10 +58,6 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
-function randomBetween(min: number, max: number): number {
-  return min + Math.random() * (max - min);
-}
-
 function lightenColor(hex: string, amount: number): string {
   const normalized = hex.replace('#', '');
   if (!/^[0-9a-fA-F]{6}$/.test(normalized)) {
@@ -71,9 +73,9 @@ function lightenColor(hex: string, amount: number): string {
 
 function playRevealTone() {
   try {
-    const AudioCtx = window.AudioContext || (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-    if (!AudioCtx) return;
-    const audioCtx = new AudioCtx();
+    const audioCtx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!audioCtx || !output) return;
 
     const osc1 = audioCtx.createOscillator();
     const gain1 = audioCtx.createGain();
@@ -81,7 +83,7 @@ function playRevealTone() {
     osc1.frequency.value = 523.25;
     gain1.gain.setValueAtTime(0.12, audioCtx.currentTime);
     gain1.gain.exponentialRampToValueAtTime(0.001, audioCtx.currentTime + 0.3);
-    osc1.connect(gain1).connect(audioCtx.destination);
+    osc1.connect(gain1).connect(output);
     osc1.start(audioCtx.currentTime);
     osc1.stop(audioCtx.currentTime + 0.3);
 
@@ -91,7 +93,7 @@ function playRevealTone() {
     osc2.frequency.value = 659.25;
     gain2.gain.setValueAtTime(0.12, audioCtx.currentTime + 0.1);
     gain2.gain.exponentialRampToValueAtTime(0.001, audioCtx.currentTime + 0.4);
-    osc2.connect(gain2).connect(audioCtx.destination);
+    osc2.connect(gain2).connect(output);
     osc2.start(audioCtx.currentTime + 0.1);
     osc2.stop(audioCtx.currentTime + 0.4);
   } catch {
@@ -100,9 +102,9 @@ function playRevealTone() {
 }
 
 export default function ScratchInteraction({
+  card,
   cardColor,
   onReveal,
-  revealText,
   onClose,
 }: ScratchInteractionProps) {
   const cardRef = useRef<HTMLDivElement>(null);
@@ -120,10 +122,11 @@ export default function ScratchInteraction({
   const gridRef = useRef<GridTracker | null>(null);
 
   const particlesRef = useRef<SparkleParticle[]>([]);
-  const particleRafRef = useRef<number | null>(null);
-  const timeoutIdsRef = useRef<number[]>([]);
+  const scheduler = useScheduler();
+  const surfaceSeed = useStreamSeed('scratch:surface');
+  const sparkleRng = useRng('scratch:sparkles');
+  const particleRafRef = useRef<ScheduledId | null>(null);
   const revealTriggeredRef = useRef(false);
-  const scratchAudioCtxRef = useRef<AudioContext | null>(null);
   const scratchSoundEngineRef = useRef<ScratchSoundEngine | null>(null);
 
   const [scratchOpacity, setScratchOpacity] = useState(1);
@@ -131,36 +134,16 @@ export default function ScratchInteraction({
   const [showText, setShowText] = useState(false);
   const [showCompletionLabel, setShowCompletionLabel] = useState(false);
   const [shaking, setShaking] = useState(false);
-
-  const clearScheduledTimeouts = useCallback(() => {
-    timeoutIdsRef.current.forEach((id) => clearTimeout(id));
-    timeoutIdsRef.current = [];
-  }, []);
-
-  const scheduleTimeout = useCallback((fn: () => void, ms: number) => {
-    const timeoutId = window.setTimeout(fn, ms);
-    timeoutIdsRef.current.push(timeoutId);
-  }, []);
+  const reducedMotion = useReducedMotion();
 
   const ensureScratchAudioContext = useCallback((): AudioContext | null => {
-    try {
-      if (scratchAudioCtxRef.current) {
-        if (!scratchSoundEngineRef.current) {
-          scratchSoundEngineRef.current = new ScratchSoundEngine(scratchAudioCtxRef.current);
-        }
-        return scratchAudioCtxRef.current;
-      }
-
-      const AudioCtx = window.AudioContext || (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-      if (!AudioCtx) return null;
-
-      const ctx = new AudioCtx();
-      scratchAudioCtxRef.current = ctx;
-      scratchSoundEngineRef.current = new ScratchSoundEngine(ctx);
-      return ctx;
-    } catch {
-      return null;
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return null;
+    if (!scratchSoundEngineRef.current) {
+      scratchSoundEngineRef.current = new ScratchSoundEngine(ctx, output);
     }
+    return ctx;
   }, []);
 
   const setupCanvas = useCallback((canvas: HTMLCanvasElement, width: number, height: number): CanvasRenderingContext2D | null => {
@@ -195,11 +178,13 @@ export default function ScratchInteraction({
     ctx.fillStyle = metallicGradient;
     ctx.fillRect(0, 0, width, height);
 
+    // Reseeded on every draw, so a resize repaints the same grain
+    const surfaceRng = createRng(surfaceSeed);
     const dotCount = clamp(Math.floor((width * height) / 28), 3000, 5000);
     for (let i = 0; i < dotCount; i += 1) {
-      const x = randomBetween(0, width);
-      const y = randomBetween(0, height);
-      const radius = randomBetween(0.5, 1.5);
+      const x = randomBetween(surfaceRng, 0, width);
+      const y = randomBetween(surfaceRng, 0, height);
+      const radius = randomBetween(surfaceRng, 0.5, 1.5);
       ctx.beginPath();
       ctx.fillStyle = i % 2 === 0 ? 'rgba(255,255,255,0.3)' : 'rgba(0,0,0,0.15)';
       ctx.arc(x, y, radius, 0, Math.PI * 2);
@@ -207,9 +192,9 @@ export default function ScratchInteraction({
     }
 
     for (let i = 0; i < 50; i += 1) {
-      const y = randomBetween(0, height);
-      const x = randomBetween(0, width * 0.15);
-      const lineWidth = width - randomBetween(0, width * 0.18) - x;
+      const y = randomBetween(surfaceRng, 0, height);
+      const x = randomBetween(surfaceRng, 0, width * 0.15);
+      const lineWidth = width - randomBetween(surfaceRng, 0, width * 0.18) - x;
       ctx.fillStyle = 'rgba(255,255,255,0.08)';
       ctx.fillRect(x, y, lineWidth, 1);
     }
@@ -226,7 +211,7 @@ export default function ScratchInteraction({
     ctx.textBaseline = 'middle';
     ctx.font = `${Math.max(18, Math.floor(width * 0.08))}px "Manrope", sans-serif`;
     ctx.fillText('✦ ✦ ✦', width / 2, height / 2);
-  }, []);
+  }, [surfaceSeed]);
 
   const initGrid = useCallback((width: number, height: number) => {
     gridRef.current = {
@@ -303,11 +288,9 @@ export default function ScratchInteraction({
   }, []);
 
   const stopParticleLoop = useCallback(() => {
-    if (particleRafRef.current !== null) {
-      cancelAnimationFrame(particleRafRef.current);
-      particleRafRef.current = null;
-    }
-  }, []);
+    scheduler.cancel(particleRafRef.current);
+    particleRafRef.current = null;
+  }, [scheduler]);
 
   const startParticleLoop = useCallback(() => {
     if (particleRafRef.current !== null) return;
@@ -316,7 +299,7 @@ export default function ScratchInteraction({
       const ctx = particleCtxRef.current;
       const { width, height } = sizeRef.current;
       if (!ctx || width <= 0 || height <= 0) {
-        particleRafRef.current = requestAnimationFrame(tick);
+        particleRafRef.current = scheduler.frame(tick);
         return;
       }
 
@@ -341,64 +324,66 @@ export default function ScratchInteraction({
       }
 
       if (isDrawingRef.current || particles.length > 0) {
-        particleRafRef.current = requestAnimationFrame(tick);
+        particleRafRef.current = scheduler.frame(tick);
       } else {
         particleRafRef.current = null;
       }
     };
 
-    particleRafRef.current = requestAnimationFrame(tick);
-  }, [drawSparkleStar]);
+    particleRafRef.current = scheduler.frame(tick);
+  }, [drawSparkleStar, scheduler]);
 
   const spawnParticlesAt = useCallback((x: number, y: number, count: number) => {
-    for (let i = 0; i < count; i += 1) {
+    const cappedCount = capParticles(count, reducedMotion);
+    for (let i = 0; i < cappedCount; i += 1) {
       particlesRef.current.push({
         x,
         y,
-        vx: randomBetween(-2, 2),
-        vy: randomBetween(-3, -0.5),
-        size: randomBetween(1.5, 4),
+        vx: randomBetween(sparkleRng, -2, 2),
+        vy: randomBetween(sparkleRng, -3, -0.5),
+        size: randomBetween(sparkleRng, 1.5, 4),
         opacity: 1,
-        decay: randomBetween(0.02, 0.05),
-        color: SPARKLE_COLORS[Math.floor(Math.random() * SPARKLE_COLORS.length)],
-        rotation: randomBetween(0, 360),
-        rotationSpeed: randomBetween(-5, 5),
+        decay: randomBetween(sparkleRng, 0.02, 0.05),
+        color: pickOne(sparkleRng, SPARKLE_COLORS),
+        rotation: randomBetween(sparkleRng, 0, 360),
+        rotationSpeed: randomBetween(sparkleRng, -5, 5),
       });
     }
-    if (particlesRef.current.length > MAX_PARTICLES) {
-      particlesRef.current.splice(0, particlesRef.current.length - MAX_PARTICLES);
+    const maxParticles = capParticles(MAX_PARTICLES, reducedMotion);
+    if (particlesRef.current.length > maxParticles) {
+      particlesRef.current.splice(0, particlesRef.current.length - maxParticles);
     }
     startParticleLoop();
-  }, [startParticleLoop]);
+  }, [reducedMotion, sparkleRng, startParticleLoop]);
 
   const spawnCenterBurst = useCallback(() => {
     const { width, height } = sizeRef.current;
     const centerX = width / 2;
     const centerY = height / 2;
 
-    for (let i = 0; i < 30; i += 1) {
+    for (let i = 0; i < capParticles(30, reducedMotion); i += 1) {
       particlesRef.current.push({
         x: centerX,
         y: centerY,
-        vx: randomBetween(-4, 4),
-        vy: randomBetween(-4, 4),
-        size: randomBetween(2, 5),
+        vx: randomBetween(sparkleRng, -4, 4),
+        vy: randomBetween(sparkleRng, -4, 4),
+        size: randomBetween(sparkleRng, 2, 5),
         opacity: 1,
-        decay: randomBetween(0.02, 0.04),
-        color: SPARKLE_COLORS[Math.floor(Math.random() * SPARKLE_COLORS.length)],
-        rotation: randomBetween(0, 360),
-        rotationSpeed: randomBetween(-5, 5),
+        decay: randomBetween(sparkleRng, 0.02, 0.04),
+        color: pickOne(sparkleRng, SPARKLE_COLORS),
+        rotation: randomBetween(sparkleRng, 0, 360),
+        rotationSpeed: randomBetween(sparkleRng, -5, 5),
       });
     }
 
     startParticleLoop();
-  }, [startParticleLoop]);
+  }, [reducedMotion, sparkleRng, startParticleLoop]);
 
   const runConfetti = useCallback(() => {
     const palette = [cardColor, '#FFD700', '#FFFFFF', lightenColor(cardColor, 30)];
 
     confetti({
-      particleCount: 80,
+      particleCount: capParticles(80, reducedMotion),
       spread: 70,
       origin: { y: 0.5, x: 0.5 },
       colors: palette,
@@ -409,9 +394,9 @@ export default function ScratchInteraction({
       ticks: 120,
     });
 
-    scheduleTimeout(() => {
+    scheduler.timeout(() => {
       confetti({
-        particleCount: 40,
+        particleCount: capParticles(40, reducedMotion),
         angle: 60,
         spread: 55,
         origin: { x: 0, y: 0.5 },
@@ -419,7 +404,7 @@ export default function ScratchInteraction({
         startVelocity: 35,
       });
       confetti({
-        particleCount: 40,
+        particleCount: capParticles(40, reducedMotion),
         angle: 120,
         spread: 55,
         origin: { x: 1, y: 0.5 },
@@ -427,7 +412,7 @@ export default function ScratchInteraction({
         startVelocity: 35,
       });
     }, 150);
-  }, [cardColor, scheduleTimeout]);
+  }, [cardColor, reducedMotion, scheduler]);
 
   const triggerReveal = useCallback(() => {
     if (revealTriggeredRef.current) return;
@@ -440,28 +425,25 @@ export default function ScratchInteraction({
     setScratchOpacity(0);
     spawnCenterBurst();
 
-    scheduleTimeout(() => {
+    scheduler.timeout(() => {
+      if (reducedMotion) return;
       setShaking(true);
-      scheduleTimeout(() => setShaking(false), 500);
+      scheduler.timeout(() => setShaking(false), 500);
     }, 200);
 
-    scheduleTimeout(() => setShowText(true), 300);
-    scheduleTimeout(runConfetti, 400);
+    scheduler.timeout(() => setShowText(true), 300);
+    scheduler.timeout(runConfetti, 400);
 
-    scheduleTimeout(() => {
-      try {
-        navigator.vibrate([50, 30, 100]);
-      } catch {
-        // no-op on unsupported devices
-      }
+    scheduler.timeout(() => {
+      haptic('success');
       playRevealTone();
     }, 500);
 
-    scheduleTimeout(() => {
+    scheduler.timeout(() => {
       setShowCompletionLabel(true);
-      onReveal();
+      onReveal?.();
     }, 800);
-  }, [onReveal, runConfetti, scheduleTimeout, spawnCenterBurst]);
+  }, [onReveal, reducedMotion, runConfetti, scheduler, spawnCenterBurst]);
 
   const maybeHandleRevealThreshold = useCallback(() => {
     const progress = getScratchPercent();
@@ -524,11 +506,7 @@ export default function ScratchInteraction({
     hapticDistanceRef.current += distance;
     if (hapticDistanceRef.current >= HAPTIC_STEP_DISTANCE) {
       hapticDistanceRef.current = 0;
-      try {
-        navigator.vibrate(2);
-      } catch {
-        // no-op on unsupported devices
-      }
+      haptic('tick');
 
       const audioCtx = ensureScratchAudioContext();
       if (audioCtx && scratchSoundEngineRef.current) {
@@ -561,18 +539,15 @@ export default function ScratchInteraction({
     lastPointRef.current = null;
     moveCounterRef.current = 0;
     hapticDistanceRef.current = 0;
-    const audioCtx = ensureScratchAudioContext();
-    if (audioCtx?.state === 'suspended') {
-      void audioCtx.resume();
-    }
+    ensureScratchAudioContext();
 
     const point = getLocalPoint(event);
     if (!point) return;
     scratchAt(point);
 
-    const spawnCount = Math.floor(randomBetween(2, 5));
+    const spawnCount = Math.floor(randomBetween(sparkleRng, 2, 5));
     spawnParticlesAt(point.x, point.y, spawnCount);
-  }, [ensureScratchAudioContext, getLocalPoint, scratchAt, spawnParticlesAt]);
+  }, [ensureScratchAudioContext, getLocalPoint, scratchAt, sparkleRng, spawnParticlesAt]);
 
   const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
     if (!isDrawingRef.current || activePointerIdRef.current !== event.pointerId) return;
@@ -654,17 +629,10 @@ export default function ScratchInteraction({
 
   useEffect(() => {
     return () => {
-      clearScheduledTimeouts();
       stopParticleLoop();
-
-      const audioCtx = scratchAudioCtxRef.current;
-      if (audioCtx) {
-        void audioCtx.close().catch(() => undefined);
-        scratchAudioCtxRef.current = null;
-      }
       scratchSoundEngineRef.current = null;
     };
-  }, [clearScheduledTimeouts, stopParticleLoop]);
+  }, [stopParticleLoop]);
 
   return (
     <motion.div
@@ -735,6 +703,23 @@ export default function ScratchInteraction({
         dragElastic={0.25}
         onDragEnd={handleCardDragEnd}
       >
+        <div
+          style={{
+            position: 'absolute',
+            top: 20,
+            left: 22,
+            zIndex: 4,
+            color: '#fff',
+            fontSize: 13,
+            fontWeight: 700,
+            textTransform: 'uppercase',
+            letterSpacing: '0.15em',
+            pointerEvents: 'none',
+          }}
+        >
+          {card.label}
+        </div>
+
         <div
           style={{
             position: 'absolute',
@@ -760,7 +745,7 @@ export default function ScratchInteraction({
             animate={showText ? { scale: 1, opacity: 1, y: 0 } : { scale: 0.7, opacity: 0, y: 20 }}
             transition={{ type: 'spring', damping: 15, stiffness: 300 }}
           >
-            {revealText}
+            {card.reward}
           </motion.div>
 
           <AnimatePresence>
@@ -1,13 +1,30 @@
 import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import type { CardData } from '../../data/cards';
+import { recordCardScore } from '../../data/progress';
+import { audioService } from '../../utils/audio';
+import { haptic } from '../../utils/haptics';
+import { useReducedMotion } from '../../utils/reducedMotion';
+import { useScheduler, useSchedulerPaused, type ScheduledId } from '../../utils/scheduler';
 
 interface ScrollProps {
+  card: CardData;
   onClose: () => void;
   cardColor: string;
   onReveal?: () => void;
 }
 
 type GamePhase = 'instructions' | 'countdown' | 'playing' | 'roundEnd' | 'gameOver';
-type RoundWinner = 'ai' | 'user' | 'draw' | null;
+type Side = 'red' | 'blue';
+type RoundWinner = Side | 'draw' | null;
+type Difficulty = 'easy' | 'normal' | 'hard' | 'adaptive';
+/** `solo` pits the player (blue) against the AI (red); `duel` hands red to a second player on the same device. */
+type PlayMode = 'solo' | 'duel';
+
+interface ActivePointer {
+  side: Side;
+  lastPos: number;
+  currentPos: number;
+}
 
 const GOAL_LEFT_RATIO = 268 / 1440;
 const GOAL_RIGHT_RATIO = 1169 / 1440;
@@ -21,26 +38,140 @@ const MOBILE_ROPE_BOTTOM_RATIO = 559.9998779296875 / 852;
 const MOBILE_GOAL_TOP_CENTER_RATIO = 156 / 852;
 const MOBILE_GOAL_BOTTOM_CENTER_RATIO = 712 / 852;
 const CROSS_ICON_SRC = '/src/assets/Cross.svg';
+const DIFFICULTY_STORAGE_KEY = 'scrollWarDifficulty';
+
+const PLAY_MODE_OPTIONS: { value: PlayMode; label: string }[] = [
+  { value: 'solo', label: 'vs AI' },
+  { value: 'duel', label: 'two players' },
+];
+
+const SIDE_NAMES: Record<PlayMode, Record<Side, string>> = {
+  solo: { red: 'AI', blue: 'You' },
+  duel: { red: 'Red', blue: 'Blue' },
+};
+
+const SIDE_COLORS: Record<Side, { accent: string; glow: string }> = {
+  red: { accent: '#FF2B2B', glow: 'rgba(255,43,43,0.6)' },
+  blue: { accent: '#2E84FF', glow: 'rgba(46,132,255,0.6)' },
+};
+
+const DIFFICULTY_OPTIONS: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'easy' },
+  { value: 'normal', label: 'normal' },
+  { value: 'hard', label: 'hard' },
+  { value: 'adaptive', label: 'adaptive' },
+];
+
+/** Normal is the card's default best; every other level keeps its own so an easy run can't stand in for a hard one. */
+function scoreVariantFor(difficulty: Difficulty): string | undefined {
+  return difficulty === 'normal' ? undefined : difficulty;
+}
+
+/** AI pull per frame for rounds 1–3. */
+const FIXED_AI_FORCE: Record<Exclude<Difficulty, 'adaptive'>, [number, number, number]> = {
+  easy: [0.2, 0.3, 0.45],
+  normal: [0.3, 0.5, 0.7],
+  hard: [0.5, 0.7, 0.9],
+};
+
+/** Share of the player's measured pull rate the adaptive AI answers with, per round. */
+const ADAPTIVE_PRESSURE: [number, number, number] = [0.75, 0.85, 0.95];
+const ADAPTIVE_MIN_FORCE = 0.2;
+const ADAPTIVE_MAX_FORCE = 1.1;
+/** Rounds shorter than this say little about drag speed and are not sampled. */
+const ADAPTIVE_MIN_SAMPLE_SECONDS = 1;
 
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value));
 }
 
-function baseAiForceForRound(round: number) {
-  if (round === 1) return 0.3;
-  if (round === 2) return 0.5;
-  return 0.7;
+function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTY_OPTIONS.some((option) => option.value === value);
+}
+
+function readStoredDifficulty(): Difficulty {
+  if (typeof window === 'undefined') return 'normal';
+  try {
+    const stored = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+    return isDifficulty(stored) ? stored : 'normal';
+  } catch {
+    return 'normal';
+  }
+}
+
+/** `pullRates` are the player's rope pull per frame in earlier rounds; adaptive falls back to normal without them. */
+function baseAiForceForRound(round: number, difficulty: Difficulty, pullRates: number[]) {
+  const roundIndex = clamp(round, 1, 3) - 1;
+  if (difficulty !== 'adaptive') return FIXED_AI_FORCE[difficulty][roundIndex];
+  if (pullRates.length === 0) return FIXED_AI_FORCE.normal[roundIndex];
+
+  const averageRate = pullRates.reduce((sum, rate) => sum + rate, 0) / pullRates.length;
+  return clamp(averageRate * ADAPTIVE_PRESSURE[roundIndex], ADAPTIVE_MIN_FORCE, ADAPTIVE_MAX_FORCE);
+}
+
+interface ChoiceRowProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+  compact: boolean;
 }
 
-export default function ScrollInteraction({ onClose, cardColor, onReveal }: ScrollProps) {
+/** Instruction-screen radio row; swallows pointerdown so picking an option doesn't start the game. */
+function ChoiceRow<T extends string>({ label, options, value, onSelect, compact }: ChoiceRowProps<T>) {
+  return (
+    <div
+      role="radiogroup"
+      aria-label={label}
+      style={{
+        display: 'flex',
+        justifyContent: 'center',
+        gap: compact ? 16 : 20,
+        pointerEvents: 'auto',
+      }}
+    >
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => onSelect(option.value)}
+            style={{
+              border: 'none',
+              background: 'transparent',
+              padding: 0,
+              cursor: 'pointer',
+              fontFamily: "'Instrument Serif', serif",
+              fontSize: 16,
+              lineHeight: 1.5,
+              color: selected ? '#D1D1D1' : '#484848',
+              textDecoration: selected ? 'underline' : 'none',
+              textUnderlineOffset: 3,
+            }}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ScrollInteraction({ card, onClose, cardColor, onReveal }: ScrollProps) {
   void cardColor;
 
   const [gamePhase, setGamePhase] = useState<GamePhase>('instructions');
   const [roundNumber, setRoundNumber] = useState<1 | 2 | 3>(1);
-  const [aiScore, setAiScore] = useState(0);
-  const [userScore, setUserScore] = useState(0);
+  const [redScore, setRedScore] = useState(0);
+  const [blueScore, setBlueScore] = useState(0);
   const [roundWinner, setRoundWinner] = useState<RoundWinner>(null);
   const [crossIconFailed, setCrossIconFailed] = useState(false);
+  const [difficulty, setDifficulty] = useState<Difficulty>(readStoredDifficulty);
+  const [playMode, setPlayMode] = useState<PlayMode>('solo');
   const [isMobileLayout, setIsMobileLayout] = useState(() => {
     if (typeof window === 'undefined') return false;
     return window.innerWidth <= MOBILE_BREAKPOINT;
@@ -50,6 +181,7 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
   const gameElementsRef = useRef<HTMLDivElement | null>(null);
   const bgTintRef = useRef<HTMLDivElement | null>(null);
   const flashRef = useRef<HTMLDivElement | null>(null);
+  const reducedMotion = useReducedMotion();
 
   const ropeRef = useRef<HTMLDivElement | null>(null);
   const ropeLeftTintRef = useRef<HTMLDivElement | null>(null);
@@ -65,20 +197,25 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
   const gameOverLine1Ref = useRef<HTMLDivElement | null>(null);
   const gameOverLine2Ref = useRef<HTMLDivElement | null>(null);
   const gameOverLine3Ref = useRef<HTMLDivElement | null>(null);
+  const gameOverBestRef = useRef<HTMLDivElement | null>(null);
 
-  const rafRef = useRef<number | null>(null);
-  const timeoutIdsRef = useRef<number[]>([]);
+  const scheduler = useScheduler({ holdAfterHidden: true });
+  const paused = useSchedulerPaused(scheduler);
+  const rafRef = useRef<ScheduledId | null>(null);
 
   const ropeOffsetRef = useRef(0);
-  const isDraggingRef = useRef(false);
-  const dragLastXRef = useRef(0);
-  const currentDragXRef = useRef(0);
+  const pointersRef = useRef(new Map<number, ActivePointer>());
   const aiForceRef = useRef(0);
   const elapsedTimeRef = useRef(0);
+  const difficultyRef = useRef<Difficulty>(difficulty);
+  const playModeRef = useRef<PlayMode>(playMode);
+  const reducedMotionRef = useRef(reducedMotion);
+  const roundPullRef = useRef(0);
+  const roundPullRatesRef = useRef<number[]>([]);
 
   const roundNumberRef = useRef<1 | 2 | 3>(1);
-  const aiScoreRef = useRef(0);
-  const userScoreRef = useRef(0);
+  const redScoreRef = useRef(0);
+  const blueScoreRef = useRef(0);
   const phaseRef = useRef<GamePhase>('instructions');
 
   const lastFrameTsRef = useRef<number | null>(null);
@@ -86,48 +223,11 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
   const roundResolvedRef = useRef(false);
   const onRevealCalledRef = useRef(false);
 
-  const audioCtxRef = useRef<AudioContext | null>(null);
-  const audioMasterRef = useRef<GainNode | null>(null);
-
-  const queueTimeout = useCallback((fn: () => void, delay: number) => {
-    const id = window.setTimeout(fn, delay);
-    timeoutIdsRef.current.push(id);
-    return id;
-  }, []);
-
-  const clearQueuedTimeouts = useCallback(() => {
-    timeoutIdsRef.current.forEach((id) => window.clearTimeout(id));
-    timeoutIdsRef.current = [];
-  }, []);
-
-  const ensureAudioContext = useCallback(() => {
-    if (audioCtxRef.current) return audioCtxRef.current;
-
-    const AudioCtor = window.AudioContext
-      || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-
-    if (!AudioCtor) return null;
-
-    const ctx = new AudioCtor();
-    const master = ctx.createGain();
-    master.gain.value = 1;
-    master.connect(ctx.destination);
-
-    audioCtxRef.current = ctx;
-    audioMasterRef.current = master;
-
-    return ctx;
-  }, []);
-
   const playTone = useCallback((frequency: number, durationMs: number, peakGain: number, delayMs = 0) => {
-    const ctx = ensureAudioContext();
-    const master = audioMasterRef.current;
+    const ctx = audioService.getContext();
+    const master = audioService.getBus('sfx');
     if (!ctx || !master) return;
 
-    if (ctx.state === 'suspended') {
-      void ctx.resume();
-    }
-
     const start = ctx.currentTime + delayMs / 1000;
     const end = start + durationMs / 1000;
 
@@ -151,11 +251,11 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       osc.disconnect();
       gain.disconnect();
     };
-  }, [ensureAudioContext]);
+  }, []);
 
   const playNoiseBurst = useCallback((durationMs: number, frequency: number, peakGain: number) => {
-    const ctx = ensureAudioContext();
-    const master = audioMasterRef.current;
+    const ctx = audioService.getContext();
+    const master = audioService.getBus('sfx');
     if (!ctx || !master) return;
 
     const sampleCount = Math.max(1, Math.floor(ctx.sampleRate * (durationMs / 1000)));
@@ -188,29 +288,29 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       filter.disconnect();
       gain.disconnect();
     };
-  }, [ensureAudioContext]);
-
-  const vibrate = useCallback((pattern: number | number[]) => {
-    if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
-      navigator.vibrate(pattern);
-    }
   }, []);
 
-  const setBlueGrabbedVisual = useCallback((grabbed: boolean) => {
-    const blue = blueDotRef.current;
-    if (!blue) return;
+  const setGrabbedVisual = useCallback((side: Side, grabbed: boolean) => {
+    const dot = side === 'red' ? redDotRef.current : blueDotRef.current;
+    if (!dot) return;
 
     if (grabbed) {
-      blue.style.background = '#2E84FF';
-      blue.style.transform = 'translate(-50%, -50%) scale(1.3)';
-      blue.style.boxShadow = '0 0 12px rgba(46,132,255,0.6)';
+      dot.style.background = SIDE_COLORS[side].accent;
+      dot.style.transform = 'translate(-50%, -50%) scale(1.3)';
+      dot.style.boxShadow = `0 0 12px ${SIDE_COLORS[side].glow}`;
     } else {
-      blue.style.background = '#FFFFFF';
-      blue.style.transform = 'translate(-50%, -50%) scale(1)';
-      blue.style.boxShadow = 'none';
+      dot.style.background = '#FFFFFF';
+      dot.style.transform = 'translate(-50%, -50%) scale(1)';
+      dot.style.boxShadow = 'none';
     }
   }, []);
 
+  const releaseAllPointers = useCallback(() => {
+    pointersRef.current.clear();
+    setGrabbedVisual('red', false);
+    setGrabbedVisual('blue', false);
+  }, [setGrabbedVisual]);
+
   const getRopeMetrics = useCallback((ropeOffset: number) => {
     if (isMobileLayout) {
       const ropeBaseTop = window.innerHeight * MOBILE_ROPE_TOP_RATIO;
@@ -225,10 +325,10 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       const ropeStart = ropeCenterY - ropeHalfLength + ropeOffset;
       const ropeEnd = ropeCenterY + ropeHalfLength + ropeOffset;
 
-      const aiWinOffset = goalTop - (ropeCenterY - ropeHalfLength);
-      const userWinOffset = goalBottom - (ropeCenterY + ropeHalfLength);
-      const span = userWinOffset - aiWinOffset;
-      const normalized = span === 0 ? 0.5 : clamp((ropeOffset - aiWinOffset) / span, 0, 1);
+      const redWinOffset = goalTop - (ropeCenterY - ropeHalfLength);
+      const blueWinOffset = goalBottom - (ropeCenterY + ropeHalfLength);
+      const span = blueWinOffset - redWinOffset;
+      const normalized = span === 0 ? 0.5 : clamp((ropeOffset - redWinOffset) / span, 0, 1);
 
       return {
         isMobile: true as const,
@@ -238,8 +338,8 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
         ropeEnd,
         goalMin: goalTop,
         goalMax: goalBottom,
-        aiWinOffset,
-        userWinOffset,
+        redWinOffset,
+        blueWinOffset,
         normalized,
       };
     }
@@ -256,10 +356,10 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
     const ropeStart = ropeCenterX - ropeHalfLength + ropeOffset;
     const ropeEnd = ropeCenterX + ropeHalfLength + ropeOffset;
 
-    const aiWinOffset = goalLeft - (ropeCenterX - ropeHalfLength);
-    const userWinOffset = goalRight - (ropeCenterX + ropeHalfLength);
-    const span = userWinOffset - aiWinOffset;
-    const normalized = span === 0 ? 0.5 : clamp((ropeOffset - aiWinOffset) / span, 0, 1);
+    const redWinOffset = goalLeft - (ropeCenterX - ropeHalfLength);
+    const blueWinOffset = goalRight - (ropeCenterX + ropeHalfLength);
+    const span = blueWinOffset - redWinOffset;
+    const normalized = span === 0 ? 0.5 : clamp((ropeOffset - redWinOffset) / span, 0, 1);
 
     return {
       isMobile: false as const,
@@ -269,8 +369,8 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       ropeEnd,
       goalMin: goalLeft,
       goalMax: goalRight,
-      aiWinOffset,
-      userWinOffset,
+      redWinOffset,
+      blueWinOffset,
       normalized,
     };
   }, [isMobileLayout]);
@@ -298,7 +398,7 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       yellowKnotRef.current.style.left = `${metrics.ropeCenterX}px`;
       yellowKnotRef.current.style.top = `${metrics.ropeCenterY}px`;
 
-      if (isDraggingRef.current) {
+      if (pointersRef.current.size > 0) {
         yellowKnotRef.current.style.boxShadow = '0 0 16px rgba(255,217,61,0.7)';
       } else {
         yellowKnotRef.current.style.boxShadow = '0 0 8px rgba(255,217,61,0.3)';
@@ -308,7 +408,6 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
     if (redDotRef.current) {
       redDotRef.current.style.left = `${metrics.isMobile ? metrics.ropeCenterX : metrics.ropeStart}px`;
       redDotRef.current.style.top = `${metrics.isMobile ? metrics.ropeStart : metrics.ropeCenterY}px`;
-      redDotRef.current.style.boxShadow = 'none';
     }
 
     if (blueDotRef.current) {
@@ -343,29 +442,27 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
     ropeOffsetRef.current = 0;
     elapsedTimeRef.current = 0;
     aiForceRef.current = 0;
-    isDraggingRef.current = false;
-    dragLastXRef.current = 0;
-    currentDragXRef.current = 0;
+    roundPullRef.current = 0;
     roundResolvedRef.current = false;
     lastFrameTsRef.current = null;
     lastCreakTsRef.current = 0;
-    setBlueGrabbedVisual(false);
+    releaseAllPointers();
     if (ropeRef.current) {
       ropeRef.current.style.transform = isMobileLayout ? 'translateX(0px)' : 'translateY(0px)';
     }
     updateVisualsFromOffset(0);
-  }, [isMobileLayout, setBlueGrabbedVisual, updateVisualsFromOffset]);
+  }, [isMobileLayout, releaseAllPointers, updateVisualsFromOffset]);
 
   const flashScreen = useCallback((color: string, duration = 200) => {
     const flash = flashRef.current;
-    if (!flash) return;
+    if (!flash || reducedMotion) return;
 
     flash.style.background = color;
     flash.style.opacity = '1';
-    queueTimeout(() => {
+    scheduler.timeout(() => {
       flash.style.opacity = '0';
     }, duration);
-  }, [queueTimeout]);
+  }, [reducedMotion, scheduler]);
 
   const revealGameOverLine = useCallback((node: HTMLDivElement | null, text: string) => {
     if (!node) return;
@@ -374,14 +471,17 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
     node.style.transform = 'translateY(10px)';
     node.style.transition = 'none';
 
-    requestAnimationFrame(() => {
+    scheduler.frame(() => {
       node.style.transition = 'opacity 600ms ease, transform 600ms ease';
       node.style.opacity = '1';
       node.style.transform = 'translateY(0)';
     });
-  }, []);
+  }, [scheduler]);
 
-  const startGameOver = useCallback((winner: 'ai' | 'user') => {
+  const startGameOver = useCallback((winner: Side) => {
+    // Results have no pause screen, so leaving the tab only suspends them until it's back
+    scheduler.setHoldAfterHidden(false);
+    scheduler.resume();
     setGamePhase('gameOver');
 
     if (gameElementsRef.current) {
@@ -397,7 +497,18 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       flashRef.current.style.background = 'transparent';
     }
 
-    const lines = winner === 'ai'
+    const isDuel = playModeRef.current === 'duel';
+    const names = SIDE_NAMES[playModeRef.current];
+    const winnerScore = winner === 'red' ? redScoreRef.current : blueScoreRef.current;
+    const loserScore = winner === 'red' ? blueScoreRef.current : redScoreRef.current;
+
+    const lines = isDuel
+      ? [
+          `${names[winner]} takes it ${winnerScore}:${loserScore}`,
+          `${names[winner]} Wins.`,
+          'tell your friends',
+        ]
+      : winner === 'red'
       ? [
           "hahahha, and I don't even have hands",
           'You lose!',
@@ -409,12 +520,20 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
           'tell your friends',
         ];
 
+    // Duels are between two guests, so they don't count toward the player's best or solve the card
+    let bestLine = 'two-player mode';
+    if (!isDuel) {
+      const level = difficultyRef.current;
+      const { best } = recordCardScore(card.id, blueScoreRef.current, 'higher', scoreVariantFor(level));
+      bestLine = `best on ${level}: ${best} ${best === 1 ? 'round' : 'rounds'} won`;
+    }
+
     const topSize = isMobileLayout ? 16 : 20;
     const headlineSize = isMobileLayout ? 32 : 40;
     const ctaSize = isMobileLayout ? 16 : 20;
 
     if (gameOverLine1Ref.current) {
-      gameOverLine1Ref.current.style.color = winner === 'user' ? '#19C189' : '#FFFFFF';
+      gameOverLine1Ref.current.style.color = winner === 'blue' && !isDuel ? '#19C189' : '#FFFFFF';
       gameOverLine1Ref.current.style.fontSize = `${topSize}px`;
       gameOverLine1Ref.current.style.fontStyle = 'normal';
       gameOverLine1Ref.current.style.marginTop = '0px';
@@ -422,7 +541,9 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
     }
 
     if (gameOverLine2Ref.current) {
-      gameOverLine2Ref.current.style.color = winner === 'user' ? '#D1D1D1' : '#C1191C';
+      gameOverLine2Ref.current.style.color = isDuel
+        ? SIDE_COLORS[winner].accent
+        : winner === 'blue' ? '#D1D1D1' : '#C1191C';
       gameOverLine2Ref.current.style.fontSize = `${headlineSize}px`;
       gameOverLine2Ref.current.style.fontStyle = 'normal';
       gameOverLine2Ref.current.style.marginTop = '0px';
@@ -442,18 +563,19 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       gameOverWrapRef.current.style.opacity = '1';
     }
 
-    queueTimeout(() => revealGameOverLine(gameOverLine1Ref.current, lines[0]), 500);
-    queueTimeout(() => revealGameOverLine(gameOverLine2Ref.current, lines[1]), 2000);
-    queueTimeout(() => revealGameOverLine(gameOverLine3Ref.current, lines[2]), 3000);
+    scheduler.timeout(() => revealGameOverLine(gameOverLine1Ref.current, lines[0]), 500);
+    scheduler.timeout(() => revealGameOverLine(gameOverLine2Ref.current, lines[1]), 2000);
+    scheduler.timeout(() => revealGameOverLine(gameOverLine3Ref.current, lines[2]), 3000);
+    scheduler.timeout(() => revealGameOverLine(gameOverBestRef.current, bestLine), 3600);
 
     playTone(330, 400, 0.05);
-    vibrate([40, 30, 60]);
+    haptic('success');
 
-    if (!onRevealCalledRef.current) {
+    if (!isDuel && !onRevealCalledRef.current) {
       onRevealCalledRef.current = true;
       onReveal?.();
     }
-  }, [isMobileLayout, onReveal, playTone, queueTimeout, revealGameOverLine, vibrate]);
+  }, [card.id, isMobileLayout, onReveal, playTone, revealGameOverLine, scheduler]);
 
   const startCountdown = useCallback((round: 1 | 2 | 3) => {
     setRoundWinner(null);
@@ -461,7 +583,7 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
 
     resetRoundPhysics();
 
-    queueTimeout(() => {
+    scheduler.timeout(() => {
       const countdownNode = countdownTextRef.current;
       if (!countdownNode) return;
 
@@ -473,7 +595,7 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       ];
 
       steps.forEach((step, index) => {
-        queueTimeout(() => {
+        scheduler.timeout(() => {
           if (!countdownTextRef.current) return;
           const node = countdownTextRef.current;
           node.textContent = step.label;
@@ -482,18 +604,18 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
           node.style.transform = 'translate(-50%, -50%) scale(1.5)';
           node.style.transition = 'none';
 
-          requestAnimationFrame(() => {
+          scheduler.frame(() => {
             node.style.transition = 'opacity 800ms ease, transform 800ms ease';
             node.style.opacity = '0.5';
             node.style.transform = 'translate(-50%, -50%) scale(1)';
           });
 
           playTone(step.frequency, 100, 0.06);
-          vibrate(10);
+          haptic('tap');
         }, index * 800);
       });
 
-      queueTimeout(() => {
+      scheduler.timeout(() => {
         if (countdownTextRef.current) {
           countdownTextRef.current.style.opacity = '0';
         }
@@ -503,61 +625,65 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
         ropeOffsetRef.current = 0;
         elapsedTimeRef.current = 0;
         aiForceRef.current = 0;
-        isDraggingRef.current = false;
-        setBlueGrabbedVisual(false);
+        releaseAllPointers();
         updateVisualsFromOffset(ropeOffsetRef.current);
       }, steps.length * 800 + 400);
     }, 30);
 
     roundNumberRef.current = round;
-  }, [playTone, queueTimeout, resetRoundPhysics, setBlueGrabbedVisual, updateVisualsFromOffset, vibrate]);
+  }, [playTone, releaseAllPointers, resetRoundPhysics, scheduler, updateVisualsFromOffset]);
 
-  const endRound = useCallback((winner: 'ai' | 'user' | 'draw') => {
+  const endRound = useCallback((winner: Side | 'draw') => {
     if (roundResolvedRef.current) return;
     roundResolvedRef.current = true;
 
-    isDraggingRef.current = false;
-    setBlueGrabbedVisual(false);
+    releaseAllPointers();
+
+    if (elapsedTimeRef.current >= ADAPTIVE_MIN_SAMPLE_SECONDS) {
+      const elapsedFrames = elapsedTimeRef.current * 60;
+      roundPullRatesRef.current.push(roundPullRef.current / elapsedFrames);
+    }
 
     setRoundWinner(winner);
     setGamePhase('roundEnd');
 
     const metrics = getRopeMetrics(ropeOffsetRef.current);
 
-    if (winner === 'ai') {
-      ropeOffsetRef.current = metrics.aiWinOffset;
+    if (winner === 'red') {
+      ropeOffsetRef.current = metrics.redWinOffset;
       updateVisualsFromOffset(ropeOffsetRef.current);
       flashScreen('rgba(230,57,70,0.15)', 200);
       playTone(80, 200, 0.1);
-      vibrate([50, 30, 80]);
-    } else if (winner === 'user') {
-      ropeOffsetRef.current = metrics.userWinOffset;
+      // In solo play red is the AI, so its win is the player's loss
+      haptic(playModeRef.current === 'solo' ? 'failure' : 'success');
+    } else if (winner === 'blue') {
+      ropeOffsetRef.current = metrics.blueWinOffset;
       updateVisualsFromOffset(ropeOffsetRef.current);
       flashScreen('rgba(74,144,217,0.15)', 200);
       playTone(523, 150, 0.08);
       playTone(659, 150, 0.08, 150);
-      vibrate([30, 20, 50]);
+      haptic('success');
     }
 
     if (winner === 'draw') {
-      queueTimeout(() => {
+      scheduler.timeout(() => {
         startCountdown(roundNumberRef.current);
       }, 1000);
       return;
     }
 
-    const nextAi = winner === 'ai' ? aiScoreRef.current + 1 : aiScoreRef.current;
-    const nextUser = winner === 'user' ? userScoreRef.current + 1 : userScoreRef.current;
+    const nextRed = winner === 'red' ? redScoreRef.current + 1 : redScoreRef.current;
+    const nextBlue = winner === 'blue' ? blueScoreRef.current + 1 : blueScoreRef.current;
 
-    aiScoreRef.current = nextAi;
-    userScoreRef.current = nextUser;
+    redScoreRef.current = nextRed;
+    blueScoreRef.current = nextBlue;
 
-    setAiScore(nextAi);
-    setUserScore(nextUser);
+    setRedScore(nextRed);
+    setBlueScore(nextBlue);
 
-    queueTimeout(() => {
-      if (nextAi >= 2 || nextUser >= 2) {
-        startGameOver(nextAi >= 2 ? 'ai' : 'user');
+    scheduler.timeout(() => {
+      if (nextRed >= 2 || nextBlue >= 2) {
+        startGameOver(nextRed >= 2 ? 'red' : 'blue');
         return;
       }
 
@@ -566,12 +692,29 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       setRoundNumber(nextRound);
       startCountdown(nextRound);
     }, 1500);
-  }, [flashScreen, getRopeMetrics, playTone, queueTimeout, setBlueGrabbedVisual, startCountdown, startGameOver, updateVisualsFromOffset, vibrate]);
+  }, [flashScreen, getRopeMetrics, playTone, releaseAllPointers, scheduler, startCountdown, startGameOver, updateVisualsFromOffset]);
+
+  const selectDifficulty = useCallback((next: Difficulty) => {
+    setDifficulty(next);
+    playTone(600, 30, 0.04);
+    try {
+      localStorage.setItem(DIFFICULTY_STORAGE_KEY, next);
+    } catch {
+      // ignore storage failures
+    }
+  }, [playTone]);
+
+  const selectPlayMode = useCallback((next: PlayMode) => {
+    setPlayMode(next);
+    playTone(600, 30, 0.04);
+  }, [playTone]);
 
   const startFromInstructions = useCallback(() => {
-    ensureAudioContext();
+    audioService.getContext();
+    // A tab switch on the instructions screen leaves the scheduler held; starting is the resume
+    scheduler.resume();
     startCountdown(roundNumberRef.current);
-  }, [ensureAudioContext, startCountdown]);
+  }, [scheduler, startCountdown]);
 
   const handlePointerDown = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -583,44 +726,46 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
 
     if (phaseRef.current !== 'playing') return;
 
-    if (isMobileLayout) {
-      if (event.clientY < window.innerHeight * 0.5) return;
-      dragLastXRef.current = event.clientY;
-      currentDragXRef.current = event.clientY;
-    } else {
-      if (event.clientX < window.innerWidth * 0.5) return;
-      dragLastXRef.current = event.clientX;
-      currentDragXRef.current = event.clientX;
-    }
+    // Red owns the left (top on mobile) half, blue the right (bottom) half
+    const pos = isMobileLayout ? event.clientY : event.clientX;
+    const midpoint = (isMobileLayout ? window.innerHeight : window.innerWidth) * 0.5;
+    const side: Side = pos < midpoint ? 'red' : 'blue';
+    if (side === 'red' && playModeRef.current === 'solo') return;
 
-    isDraggingRef.current = true;
+    pointersRef.current.set(event.pointerId, { side, lastPos: pos, currentPos: pos });
 
-    setBlueGrabbedVisual(true);
-    playTone(600, 30, 0.04);
+    setGrabbedVisual(side, true);
+    playTone(side === 'red' ? 500 : 600, 30, 0.04);
 
     event.currentTarget.setPointerCapture(event.pointerId);
-  }, [isMobileLayout, playTone, setBlueGrabbedVisual, startFromInstructions]);
+  }, [isMobileLayout, playTone, setGrabbedVisual, startFromInstructions]);
 
   const handlePointerMove = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
     event.preventDefault();
-    if (phaseRef.current !== 'playing' || !isDraggingRef.current) return;
-    currentDragXRef.current = isMobileLayout ? event.clientY : event.clientX;
+    if (phaseRef.current !== 'playing') return;
+    const pointer = pointersRef.current.get(event.pointerId);
+    if (!pointer) return;
+    pointer.currentPos = isMobileLayout ? event.clientY : event.clientX;
   }, [isMobileLayout]);
 
   const handlePointerUp = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
     event.preventDefault();
 
     if (phaseRef.current !== 'playing') return;
-    if (!isDraggingRef.current) return;
+    const pointer = pointersRef.current.get(event.pointerId);
+    if (!pointer) return;
 
-    isDraggingRef.current = false;
-    setBlueGrabbedVisual(false);
+    pointersRef.current.delete(event.pointerId);
+    const sideStillHeld = [...pointersRef.current.values()].some((other) => other.side === pointer.side);
+    if (!sideStillHeld) {
+      setGrabbedVisual(pointer.side, false);
+    }
     playTone(150, 60, 0.04);
 
     if (event.currentTarget.hasPointerCapture(event.pointerId)) {
       event.currentTarget.releasePointerCapture(event.pointerId);
     }
-  }, [playTone, setBlueGrabbedVisual]);
+  }, [playTone, setGrabbedVisual]);
 
   useEffect(() => {
     phaseRef.current = gamePhase;
@@ -631,12 +776,24 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
   }, [roundNumber]);
 
   useEffect(() => {
-    aiScoreRef.current = aiScore;
-  }, [aiScore]);
+    difficultyRef.current = difficulty;
+  }, [difficulty]);
 
   useEffect(() => {
-    userScoreRef.current = userScore;
-  }, [userScore]);
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    playModeRef.current = playMode;
+  }, [playMode]);
+
+  useEffect(() => {
+    redScoreRef.current = redScore;
+  }, [redScore]);
+
+  useEffect(() => {
+    blueScoreRef.current = blueScore;
+  }, [blueScore]);
 
   useEffect(() => {
     const previousOverflow = document.body.style.overflow;
@@ -694,21 +851,19 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       return;
     }
 
-    const raf = requestAnimationFrame(() => {
+    const raf = scheduler.frame(() => {
       updateVisualsFromOffset(ropeOffsetRef.current);
     });
 
     return () => {
-      cancelAnimationFrame(raf);
+      scheduler.cancel(raf);
     };
-  }, [gamePhase, updateVisualsFromOffset]);
+  }, [gamePhase, scheduler, updateVisualsFromOffset]);
 
   useEffect(() => {
     if (gamePhase !== 'playing') {
-      if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-      }
+      scheduler.cancel(rafRef.current);
+      rafRef.current = null;
       return;
     }
 
@@ -728,20 +883,30 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
       elapsedTimeRef.current += dtMs / 1000;
       const elapsed = elapsedTimeRef.current;
 
-      const aiForce = baseAiForceForRound(roundNumberRef.current);
+      const isDuel = playModeRef.current === 'duel';
+      const aiForce = isDuel
+        ? 0
+        : baseAiForceForRound(roundNumberRef.current, difficultyRef.current, roundPullRatesRef.current);
       const metricsBefore = getRopeMetrics(ropeOffsetRef.current);
-      let aiMultiplier = userScoreRef.current >= 1 ? 1.35 : 1;
+      let aiMultiplier = blueScoreRef.current >= 1 ? 1.35 : 1;
       if (metricsBefore.normalized >= 0.6) {
         aiMultiplier *= 1.5;
       }
       const scaledAiForce = aiForce * aiMultiplier;
       aiForceRef.current = scaledAiForce;
 
-      if (isDraggingRef.current) {
-        const fingerDelta = currentDragXRef.current - dragLastXRef.current;
-        dragLastXRef.current = currentDragXRef.current;
+      const heldSides = new Set<Side>();
+      pointersRef.current.forEach((pointer) => {
+        const fingerDelta = pointer.currentPos - pointer.lastPos;
+        pointer.lastPos = pointer.currentPos;
         ropeOffsetRef.current += fingerDelta * 0.15;
+        if (pointer.side === 'blue') {
+          roundPullRef.current += Math.max(0, fingerDelta) * 0.15;
+        }
+        heldSides.add(pointer.side);
+      });
 
+      if (heldSides.size > 0) {
         if (timestamp - lastCreakTsRef.current >= 200) {
           playNoiseBurst(30, 400, 0.02);
           lastCreakTsRef.current = timestamp;
@@ -750,11 +915,13 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
 
       ropeOffsetRef.current -= scaledAiForce * dtFrames;
       const metrics = getRopeMetrics(ropeOffsetRef.current);
-      const winOffsetSpan = metrics.userWinOffset - metrics.aiWinOffset;
-      const nearGoal = ropeOffsetRef.current <= metrics.aiWinOffset + winOffsetSpan * 0.2
-        || ropeOffsetRef.current >= metrics.userWinOffset - winOffsetSpan * 0.2;
+      const winOffsetSpan = metrics.blueWinOffset - metrics.redWinOffset;
+      const nearGoal = ropeOffsetRef.current <= metrics.redWinOffset + winOffsetSpan * 0.2
+        || ropeOffsetRef.current >= metrics.blueWinOffset - winOffsetSpan * 0.2;
       if (ropeRef.current) {
-        if (isDraggingRef.current && scaledAiForce > 0) {
+        // The rope strains while both ends are pulled, by the AI or by two hands; reduced motion keeps it still
+        const isContested = isDuel ? heldSides.size === 2 : heldSides.size > 0 && scaledAiForce > 0;
+        if (isContested && !reducedMotionRef.current) {
           const intensity = nearGoal ? 2 : 1;
           if (metrics.isMobile) {
             ropeRef.current.style.transform = `translateX(${(Math.random() * 2 - 1) * intensity}px)`;
@@ -768,17 +935,21 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
 
       updateVisualsFromOffset(ropeOffsetRef.current);
 
-      const userWinThreshold = metrics.isMobile
-        ? metrics.ropeCenterY
-        : metrics.ropeCenterX;
+      // Solo gives the player a shorter pull than the AI; a duel makes both sides reach their own goal
+      const redWins = isDuel
+        ? ropeOffsetRef.current <= metrics.redWinOffset
+        : metrics.ropeStart <= metrics.goalMin;
+      const blueWins = isDuel
+        ? ropeOffsetRef.current >= metrics.blueWinOffset
+        : metrics.ropeStart >= (metrics.isMobile ? metrics.ropeCenterY : metrics.ropeCenterX);
 
-      if (metrics.ropeStart <= metrics.goalMin) {
-        endRound('ai');
+      if (redWins) {
+        endRound('red');
         return;
       }
 
-      if (metrics.ropeStart >= userWinThreshold) {
-        endRound('user');
+      if (blueWins) {
+        endRound('blue');
         return;
       }
 
@@ -787,41 +958,26 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
         return;
       }
 
-      rafRef.current = requestAnimationFrame(loop);
+      rafRef.current = scheduler.frame(loop);
     };
 
-    rafRef.current = requestAnimationFrame(loop);
+    rafRef.current = scheduler.frame(loop);
 
     return () => {
-      if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
-        rafRef.current = null;
-      }
+      scheduler.cancel(rafRef.current);
+      rafRef.current = null;
     };
-  }, [endRound, gamePhase, getRopeMetrics, playNoiseBurst, updateVisualsFromOffset]);
+  }, [endRound, gamePhase, getRopeMetrics, playNoiseBurst, scheduler, updateVisualsFromOffset]);
 
+  // Hands come off the rope while paused, so nothing lurches when play resumes
   useEffect(() => {
-    return () => {
-      clearQueuedTimeouts();
-      if (rafRef.current !== null) {
-        cancelAnimationFrame(rafRef.current);
-      }
-
-      try {
-        audioMasterRef.current?.disconnect();
-      } catch {
-        // no-op
-      }
-
-      if (audioCtxRef.current) {
-        void audioCtxRef.current.close();
-      }
-    };
-  }, [clearQueuedTimeouts]);
+    if (paused) releaseAllPointers();
+  }, [paused, releaseAllPointers]);
 
   const isInstructions = gamePhase === 'instructions';
   const isCountdown = gamePhase === 'countdown';
   const isRoundEnd = gamePhase === 'roundEnd';
+  const isMidMatch = isCountdown || gamePhase === 'playing' || isRoundEnd;
 
   return (
     <div
@@ -886,6 +1042,77 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
         {crossIconFailed && <span style={{ display: 'block', width: 40, height: 40, lineHeight: '40px' }}>×</span>}
       </button>
 
+      {isMidMatch && !paused && (
+        <button
+          type="button"
+          onPointerDown={(event) => event.stopPropagation()}
+          onClick={() => scheduler.pause()}
+          aria-label="Pause"
+          style={{
+            position: 'fixed',
+            top: isMobileLayout ? 40 : 80,
+            left: isMobileLayout ? 15 : 48,
+            height: 48,
+            border: 'none',
+            background: 'transparent',
+            color: '#484848',
+            fontFamily: "'Instrument Serif', serif",
+            fontSize: 20,
+            padding: 0,
+            zIndex: 1020,
+            cursor: 'pointer',
+          }}
+        >
+          pause
+        </button>
+      )}
+
+      {paused && isMidMatch && (
+        <div
+          role="dialog"
+          aria-label="Paused"
+          onPointerDown={(event) => event.stopPropagation()}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 1010,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 24,
+            background: 'rgba(0,0,0,0.85)',
+            fontFamily: "'Instrument Serif', serif",
+            textAlign: 'center',
+          }}
+        >
+          <div style={{ fontSize: isMobileLayout ? 32 : 40, color: '#FFFFFF', lineHeight: 1.2 }}>
+            paused
+          </div>
+          <div style={{ fontSize: isMobileLayout ? 16 : 20, color: '#484848', lineHeight: 1.5 }}>
+            round {roundNumber} · {SIDE_NAMES[playMode].red} {redScore} : {blueScore} {SIDE_NAMES[playMode].blue}
+          </div>
+          <button
+            type="button"
+            autoFocus
+            onClick={() => scheduler.resume()}
+            style={{
+              border: 'none',
+              background: 'transparent',
+              color: '#D1D1D1',
+              fontFamily: "'Instrument Serif', serif",
+              fontSize: isMobileLayout ? 16 : 20,
+              textDecoration: 'underline',
+              textUnderlineOffset: 3,
+              padding: 0,
+              cursor: 'pointer',
+            }}
+          >
+            resume
+          </button>
+        </div>
+      )}
+
       <div ref={bgTintRef} style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }} />
 
       <div ref={gameElementsRef} style={{ position: 'absolute', inset: 0, opacity: 1 }}>
@@ -930,9 +1157,27 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
                   fontStyle: 'normal',
                 }}
               >
-                drag the blue handle to win
+                {playMode === 'duel'
+                  ? `red pulls ${isMobileLayout ? 'up' : 'left'}, blue pulls ${isMobileLayout ? 'down' : 'right'}`
+                  : 'drag the blue handle to win'}
               </div>
             </div>
+            <ChoiceRow
+              label="Players"
+              options={PLAY_MODE_OPTIONS}
+              value={playMode}
+              onSelect={selectPlayMode}
+              compact={isMobileLayout}
+            />
+            {playMode === 'solo' && (
+              <ChoiceRow
+                label="Difficulty"
+                options={DIFFICULTY_OPTIONS}
+                value={difficulty}
+                onSelect={selectDifficulty}
+                compact={isMobileLayout}
+              />
+            )}
             <div
               style={{
                 width: '100%',
@@ -965,7 +1210,7 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
                 fontWeight: 400,
               }}
             >
-              {userScore}:{aiScore}
+              {blueScore}:{redScore}
             </div>
 
             <div
@@ -1067,7 +1312,8 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
                 background: '#FFFFFF',
                 border: '3px solid #FF2B2B',
                 transform: 'translate(-50%, -50%)',
-                willChange: 'left, top, box-shadow',
+                transition: 'transform 120ms ease, box-shadow 120ms ease, background 120ms ease',
+                willChange: 'left, top, transform, box-shadow',
                 zIndex: 6,
                 pointerEvents: 'none',
               }}
@@ -1120,14 +1366,16 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
                   fontFamily: "'Instrument Serif', serif",
                   fontSize: 20,
                   fontWeight: 400,
-                  color: roundWinner === 'ai' ? '#E63946' : roundWinner === 'user' ? '#4A90D9' : '#FFFFFF',
+                  color: roundWinner === 'red' ? '#E63946' : roundWinner === 'blue' ? '#4A90D9' : '#FFFFFF',
                   lineHeight: 1.5,
                   pointerEvents: 'none',
                   opacity: 0,
                   animation: 'scroll-war-round-fade 300ms ease forwards',
                 }}
               >
-                {roundWinner === 'ai' ? 'AI WINS' : roundWinner === 'user' ? 'YOU WIN' : 'DRAW'}
+                {roundWinner === 'draw'
+                  ? 'DRAW'
+                  : `${SIDE_NAMES[playMode][roundWinner].toUpperCase()} ${roundWinner === 'blue' && playMode === 'solo' ? 'WIN' : 'WINS'}`}
               </div>
             )}
           </>
@@ -1187,6 +1435,19 @@ export default function ScrollInteraction({ onClose, cardColor, onReveal }: Scro
             transform: 'translateY(10px)',
           }}
         />
+        <div
+          ref={gameOverBestRef}
+          style={{
+            marginTop: 12,
+            fontFamily: "'Instrument Serif', serif",
+            fontSize: isMobileLayout ? 14 : 16,
+            fontWeight: 400,
+            color: '#484848',
+            lineHeight: 1.5,
+            opacity: 0,
+            transform: 'translateY(10px)',
+          }}
+        />
       </div>
 
       <div
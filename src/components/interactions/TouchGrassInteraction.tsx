@@ -1,6 +1,11 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'motion/react';
 import grassBg from '../../assets/grass-bg.png';
+import { useDeckMode } from '../../data/progress';
+import { haptic } from '../../utils/haptics';
+import { useErrorGuard } from '../../utils/interactionErrors';
+import { useSessionSource } from '../../utils/random';
+import { capParticles, useReducedMotion } from '../../utils/reducedMotion';
 
 interface TouchGrassProps {
   onClose: () => void;
@@ -9,6 +14,7 @@ interface TouchGrassProps {
 }
 
 const REVEAL_ACTIVE_SECONDS = 8;
+const HARD_REVEAL_ACTIVE_SECONDS = 20;
 const PARTICLE_COUNT = 20;
 
 interface Particle {
@@ -33,6 +39,11 @@ export default function TouchGrassInteraction({
   const rafRef = useRef(0);
   const revealedRef = useRef(false);
 
+  const reducedMotion = useReducedMotion();
+  const guard = useErrorGuard();
+  const { now: clock } = useSessionSource();
+  const revealSeconds = useDeckMode() === 'hard' ? HARD_REVEAL_ACTIVE_SECONDS : REVEAL_ACTIVE_SECONDS;
+
   // Generate particles once
   const particles = useMemo<Particle[]>(() => {
     const result: Particle[] = [];
@@ -50,27 +61,30 @@ export default function TouchGrassInteraction({
 
   // Accumulate active time via rAF (lightweight — no drawing)
   const tick = useCallback(() => {
-    const now = performance.now();
+    const now = clock();
     if (lastTimestampRef.current > 0 && pointerActiveRef.current && !revealedRef.current) {
       const dt = (now - lastTimestampRef.current) / 1000;
       activeTimeRef.current += dt;
 
-      if (activeTimeRef.current >= REVEAL_ACTIVE_SECONDS) {
+      if (activeTimeRef.current >= revealSeconds) {
         revealedRef.current = true;
         setIsRevealed(true);
         onReveal?.();
-        try { navigator.vibrate([30, 50, 30]); } catch { /* noop */ }
+        haptic('success');
       }
     }
     lastTimestampRef.current = now;
-    rafRef.current = requestAnimationFrame(tick);
-  }, [onReveal]);
+  }, [clock, onReveal, revealSeconds]);
 
   useEffect(() => {
-    lastTimestampRef.current = performance.now();
-    rafRef.current = requestAnimationFrame(tick);
+    lastTimestampRef.current = clock();
+    const loop = guard(() => {
+      tick();
+      rafRef.current = requestAnimationFrame(loop);
+    });
+    rafRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(rafRef.current);
-  }, [tick]);
+  }, [clock, guard, tick]);
 
   // Pointer handlers
   const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
@@ -141,7 +155,7 @@ export default function TouchGrassInteraction({
       />
 
       {/* Floating particles */}
-      {particles.map((p, i) => (
+      {particles.slice(0, capParticles(particles.length, reducedMotion)).map((p, i) => (
         <div
           key={i}
           style={{
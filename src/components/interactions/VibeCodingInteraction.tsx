@@ -2,8 +2,16 @@ import { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import confetti from 'canvas-confetti';
 import BugSquashGame from './BugSquashGame';
+import type { CardData } from '../../data/cards';
+import type { BugSquashMode } from '../../data/bugSquashLeaderboard';
+import { audioService } from '../../utils/audio';
+import { haptic } from '../../utils/haptics';
+import { useRng } from '../../utils/random';
+import { capParticles, useReducedMotion } from '../../utils/reducedMotion';
+import { useScheduler } from '../../utils/scheduler';
 
 interface VibeCodingProps {
+  card: CardData;
   onClose: () => void;
   cardColor: string;
   onReveal?: () => void;
@@ -199,6 +207,7 @@ async function enterFullscreenIfAvailable() {
 // ── Component ─────────────────────────────────────────────────────────
 
 export default function VibeCodingInteraction({
+  card,
   onClose,
   onReveal,
 }: VibeCodingProps) {
@@ -208,7 +217,7 @@ export default function VibeCodingInteraction({
   const [deployLines, setDeployLines] = useState<DeployLine[]>([]);
   const [shaking, setShaking] = useState(false);
   const [bgColor, setBgColor] = useState('#2F2E5C');
-  const [showGame, setShowGame] = useState(false);
+  const [gameMode, setGameMode] = useState<BugSquashMode | null>(null);
   const [showTapHint, setShowTapHint] = useState(false);
   const [tapHintFading, setTapHintFading] = useState(false);
   const [showRedFlash, setShowRedFlash] = useState(false);
@@ -221,25 +230,26 @@ export default function VibeCodingInteraction({
   const phaseRef = useRef('typing');
   const typingActiveRef = useRef(false);
   const codeAreaRef = useRef<HTMLDivElement>(null);
-  const allTimersRef = useRef<number[]>([]);
-  const allIntervalsRef = useRef<number[]>([]);
+  const scheduler = useScheduler();
+  const rng = useRng('vibeCoding');
   const onRevealRef = useRef(onReveal);
   onRevealRef.current = onReveal;
+  const reducedMotion = useReducedMotion();
+  const reducedMotionRef = useRef(reducedMotion);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+  }, [reducedMotion]);
   const tapHintDismissedRef = useRef(false);
 
   const typeNextRef = useRef<() => void>(() => {});
   const triggerRevealRef = useRef<() => void>(() => {});
-  const audioCtxRef = useRef<AudioContext | null>(null);
 
   useEffect(() => {
-    function sched(fn: () => void, ms: number) {
-      const id = window.setTimeout(fn, ms);
-      allTimersRef.current.push(id);
-      return id;
-    }
+    const sched = scheduler.timeout;
 
     function autoScroll() {
-      requestAnimationFrame(() => {
+      scheduler.frame(() => {
         if (codeAreaRef.current) {
           codeAreaRef.current.scrollTop = codeAreaRef.current.scrollHeight;
         }
@@ -249,8 +259,9 @@ export default function VibeCodingInteraction({
     // ── Sound helpers ───────────────────────────────────────────────
 
     function playBlip(freq: number, durationMs: number, gain: number) {
-      const ctx = audioCtxRef.current;
-      if (!ctx) return;
+      const ctx = audioService.getContext();
+      const output = audioService.getBus('sfx');
+      if (!ctx || !output) return;
       try {
         const osc = ctx.createOscillator();
         const vol = ctx.createGain();
@@ -259,15 +270,16 @@ export default function VibeCodingInteraction({
         vol.gain.setValueAtTime(gain, ctx.currentTime);
         vol.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + durationMs / 1000);
         osc.connect(vol);
-        vol.connect(ctx.destination);
+        vol.connect(output);
         osc.start(ctx.currentTime);
         osc.stop(ctx.currentTime + durationMs / 1000 + 0.01);
       } catch { /* noop */ }
     }
 
     function playChime() {
-      const ctx = audioCtxRef.current;
-      if (!ctx) return;
+      const ctx = audioService.getContext();
+      const output = audioService.getBus('sfx');
+      if (!ctx || !output) return;
       try {
         const osc1 = ctx.createOscillator();
         const vol1 = ctx.createGain();
@@ -276,7 +288,7 @@ export default function VibeCodingInteraction({
         vol1.gain.setValueAtTime(0.1, ctx.currentTime);
         vol1.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.15);
         osc1.connect(vol1);
-        vol1.connect(ctx.destination);
+        vol1.connect(output);
         osc1.start(ctx.currentTime);
         osc1.stop(ctx.currentTime + 0.16);
 
@@ -287,7 +299,7 @@ export default function VibeCodingInteraction({
         vol2.gain.setValueAtTime(0.1, ctx.currentTime + 0.15);
         vol2.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.3);
         osc2.connect(vol2);
-        vol2.connect(ctx.destination);
+        vol2.connect(output);
         osc2.start(ctx.currentTime + 0.15);
         osc2.stop(ctx.currentTime + 0.31);
       } catch { /* noop */ }
@@ -296,8 +308,9 @@ export default function VibeCodingInteraction({
     // ── Warning sequence (after deploy) ────────────────────────────
 
     function playWarningSound() {
-      const ctx = audioCtxRef.current;
-      if (!ctx) return;
+      const ctx = audioService.getContext();
+      const output = audioService.getBus('sfx');
+      if (!ctx || !output) return;
       try {
         const osc = ctx.createOscillator();
         const vol = ctx.createGain();
@@ -306,7 +319,7 @@ export default function VibeCodingInteraction({
         vol.gain.setValueAtTime(0.08, ctx.currentTime);
         vol.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.2);
         osc.connect(vol);
-        vol.connect(ctx.destination);
+        vol.connect(output);
         osc.start(ctx.currentTime);
         osc.stop(ctx.currentTime + 0.21);
       } catch { /* noop */ }
@@ -346,7 +359,7 @@ export default function VibeCodingInteraction({
 
       sched(() => {
         setShowDefendButton(true);
-        try { navigator.vibrate([20, 10, 20]); } catch { /* noop */ }
+        haptic('failure');
       }, 2500);
     }
 
@@ -372,7 +385,7 @@ export default function VibeCodingInteraction({
       setDisplayedCode(display);
 
       if (typedLenRef.current > INITIAL_CODE.length) {
-        try { navigator.vibrate(1); } catch { /* noop */ }
+        haptic('tick');
       }
 
       autoScroll();
@@ -401,15 +414,14 @@ export default function VibeCodingInteraction({
 
       const colors = ['#D4D4D4', '#FF0000', '#00FF00', '#0000FF'];
       let ci = 0;
-      const flickerId = window.setInterval(() => {
+      const flickerId = scheduler.interval(() => {
         ci = (ci + 1) % colors.length;
         setGlitchColor(colors[ci]);
       }, 60);
-      allIntervalsRef.current.push(flickerId);
 
       // Phase 1: Glitch 400ms
       sched(() => {
-        window.clearInterval(flickerId);
+        scheduler.cancel(flickerId);
         setGlitchColor(null);
         phaseRef.current = 'fade';
         setPhase('fade');
@@ -566,9 +578,9 @@ export default function VibeCodingInteraction({
 
         if (step.effectOnEnd === 'confetti') {
           playChime();
-          try { navigator.vibrate([50, 30, 80]); } catch { /* noop */ }
+          haptic('success');
           confetti({
-            particleCount: 60,
+            particleCount: capParticles(60, reducedMotionRef.current),
             spread: 70,
             origin: { y: 0.6, x: 0.5 },
             colors: ['#28C840', '#C586C0', '#DCDCAA', '#CE9178'],
@@ -589,11 +601,8 @@ export default function VibeCodingInteraction({
     triggerRevealRef.current = triggerReveal;
     typeNext();
 
-    return () => {
-      allTimersRef.current.forEach(id => window.clearTimeout(id));
-      allIntervalsRef.current.forEach(id => window.clearInterval(id));
-    };
-  }, []);
+    return () => scheduler.cancelAll();
+  }, [scheduler]);
 
   // ── Full-bleed: theme-color + document background ──────────────────
   useEffect(() => {
@@ -618,16 +627,14 @@ export default function VibeCodingInteraction({
   }, []);
 
   const handleTap = () => {
-    // Init AudioContext on first user gesture
-    if (!audioCtxRef.current) {
-      try { audioCtxRef.current = new AudioContext(); } catch { /* noop */ }
-    }
+    // Unlock the shared AudioContext on first user gesture
+    audioService.getContext();
 
     // Dismiss tap hint on first tap
     if (!tapHintDismissedRef.current) {
       tapHintDismissedRef.current = true;
       setTapHintFading(true);
-      setTimeout(() => setShowTapHint(false), 200);
+      scheduler.timeout(() => setShowTapHint(false), 200);
     }
 
     if (phaseRef.current !== 'typing') return;
@@ -641,7 +648,7 @@ export default function VibeCodingInteraction({
     if (snippetPoolRef.current.length === 0) {
       snippetPoolRef.current = [...Array(TAP_SNIPPETS.length).keys()];
     }
-    const pi = Math.floor(Math.random() * snippetPoolRef.current.length);
+    const pi = Math.floor(rng() * snippetPoolRef.current.length);
     const si = snippetPoolRef.current[pi];
     snippetPoolRef.current.splice(pi, 1);
 
@@ -678,7 +685,7 @@ export default function VibeCodingInteraction({
           display: 'flex',
           flexDirection: 'column',
           fontFamily: FONT,
-          animation: shaking ? 'deploy-shake 300ms ease' : undefined,
+          animation: shaking && !reducedMotion ? 'deploy-shake 300ms ease' : undefined,
         }}
       >
         {/* Top bar */}
@@ -720,7 +727,7 @@ export default function VibeCodingInteraction({
             overflow: 'hidden',
             opacity: phase === 'fade' ? 0 : 1,
             transition: phase === 'fade' ? 'opacity 200ms ease' : 'opacity 0ms',
-            animation: phase === 'glitch' ? 'glitch-shake 80ms linear infinite' : undefined,
+            animation: phase === 'glitch' && !reducedMotion ? 'glitch-shake 80ms linear infinite' : undefined,
           }}
           {...(phase === 'glitch' ? { 'data-glitch': '' } : {})}
         >
@@ -772,14 +779,15 @@ export default function VibeCodingInteraction({
                     {showDefendButton && (
                       <div style={{
                         display: 'flex',
-                        justifyContent: 'center',
+                        flexDirection: 'column',
+                        alignItems: 'center',
                         marginTop: 24,
                       }}>
                         <div
                           onClick={(e) => {
                             e.stopPropagation();
                             void enterFullscreenIfAvailable();
-                            setShowGame(true);
+                            setGameMode('sprint');
                           }}
                           style={{
                             color: '#28C840',
@@ -795,6 +803,22 @@ export default function VibeCodingInteraction({
                         >
                           [ DEFEND ]
                         </div>
+                        <div
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void enterFullscreenIfAvailable();
+                            setGameMode('endless');
+                          }}
+                          style={{
+                            marginTop: 16,
+                            color: '#6A9955',
+                            fontSize: 13,
+                            fontFamily: FONT,
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {'// or hold the line: endless mode'}
+                        </div>
                       </div>
                     )}
                   </>
@@ -876,7 +900,7 @@ export default function VibeCodingInteraction({
       </div>
 
       {/* Red flash overlay */}
-      {showRedFlash && (
+      {showRedFlash && !reducedMotion && (
         <div style={{
           position: 'absolute',
           inset: 0,
@@ -888,9 +912,11 @@ export default function VibeCodingInteraction({
 
       {/* Bug Squash Game overlay */}
       <AnimatePresence>
-        {showGame && (
+        {gameMode && (
           <BugSquashGame
             key="bugsquash"
+            cardId={card.id}
+            mode={gameMode}
             onClose={onClose}
             onComplete={() => {}}
           />
@@ -0,0 +1,163 @@
+import { createElement, lazy, type ComponentType } from 'react';
+import type { CardData } from '../../data/cards';
+import type { InteractionKey } from '../../data/interactionKeys';
+import { formatClearTime, type CardProgress } from '../../data/progress';
+import {
+  BeingWatchedCard,
+  CleanEverythingCard,
+  CountdownCard,
+  DiaryCard,
+  MoreComingSoonCard,
+  ScratchCard,
+  ScrollPreviewCard,
+  TouchGrassCard,
+  VibeCodingCard,
+} from '../CardFaces';
+
+export interface InteractionOverlayProps {
+  card: CardData;
+  cardColor: string;
+  onClose: () => void;
+  onReveal?: () => void;
+}
+
+export interface InteractionFaceProps {
+  card: CardData;
+}
+
+export interface InteractionDefinition {
+  /** Full-screen experience mounted when the card is opened; loaded on demand, so render it inside `Suspense`. */
+  Overlay: ComponentType<InteractionOverlayProps>;
+  /** Starts downloading the overlay's chunk; safe to call repeatedly. */
+  preload: () => Promise<unknown>;
+  /** Lets `Overlay` download again after a failed chunk load; a no-op otherwise. */
+  retry: () => void;
+  /** Front face rendered in the stack and desktop rail. Falls back to the generic media card when omitted. */
+  Face?: ComponentType<InteractionFaceProps>;
+  title: string;
+  /** Progress dot keeps a card-colored outline even before the card is solved. */
+  outlineDot?: boolean;
+  /** Renders the card's stored best score for progress summaries. */
+  formatBest?: (best: number) => string;
+  /** Score variants the card records besides its default best, mapped to the name progress summaries show. */
+  scoreVariants?: Record<string, string>;
+  /** Nothing to solve yet, so the card doesn't count towards finishing the deck. */
+  placeholder?: boolean;
+}
+
+type OverlayModule = { default: ComponentType<InteractionOverlayProps> };
+
+/**
+ * Code-splits an overlay: `Overlay` suspends until the chunk arrives and `preload` fetches it early.
+ * React.lazy keeps a failed download forever, so `retry` swaps in a fresh lazy component after one.
+ */
+function lazyOverlay(
+  load: () => Promise<OverlayModule>,
+): Pick<InteractionDefinition, 'Overlay' | 'preload' | 'retry'> {
+  let pending: Promise<OverlayModule> | null = null;
+  let failed = false;
+  const loadOnce = () => {
+    pending ??= load().catch((error: unknown) => {
+      // Let a later attempt retry after a failed download.
+      pending = null;
+      failed = true;
+      throw error;
+    });
+    return pending;
+  };
+  let LazyOverlay = lazy(loadOnce);
+  const Overlay = (props: InteractionOverlayProps) => createElement(LazyOverlay, props);
+  const retry = () => {
+    if (!failed) return;
+    failed = false;
+    LazyOverlay = lazy(loadOnce);
+  };
+  return { Overlay, preload: loadOnce, retry };
+}
+
+const comingSoonOverlay = lazyOverlay(() => import('./ComingSoonInteraction'));
+
+export const interactions = {
+  scroll: {
+    ...lazyOverlay(() => import('./ScrollInteraction')),
+    Face: ScrollPreviewCard,
+    title: 'Scroll war',
+    formatBest: (best) => `${best} ${best === 1 ? 'round' : 'rounds'} won`,
+    scoreVariants: { easy: 'easy', hard: 'hard', adaptive: 'adaptive' },
+  },
+  vibeCoding: {
+    ...lazyOverlay(() => import('./VibeCodingInteraction')),
+    Face: VibeCodingCard,
+    title: 'Vibe Coding',
+    outlineDot: true,
+    formatBest: (best) => `${best} pts`,
+    scoreVariants: { endless: 'endless' },
+  },
+  reorganize: {
+    ...lazyOverlay(() => import('./ReorganizeInteraction')),
+    Face: CleanEverythingCard,
+    title: 'Everything Messy',
+    outlineDot: true,
+    formatBest: formatClearTime,
+    scoreVariants: { tidy: 'tidy' },
+  },
+  journal: {
+    ...lazyOverlay(() => import('./JournalInteraction')),
+    Face: DiaryCard,
+    title: 'Diary',
+  },
+  scratch: {
+    ...lazyOverlay(() => import('./ScratchInteraction')),
+    Face: ScratchCard,
+    title: 'Scratch card',
+  },
+  touchGrass: {
+    ...lazyOverlay(() => import('./TouchGrassInteraction')),
+    Face: TouchGrassCard,
+    title: 'Touch grass',
+  },
+  beingWatched: {
+    ...comingSoonOverlay,
+    Face: BeingWatchedCard,
+    title: 'Being watched',
+    placeholder: true,
+  },
+  moreComingSoon: {
+    ...comingSoonOverlay,
+    Face: MoreComingSoonCard,
+    title: 'More coming soon',
+    placeholder: true,
+  },
+  /** Assigned by the schedule to cards before their `availableFrom` date. */
+  upcoming: {
+    ...comingSoonOverlay,
+    Face: CountdownCard,
+    title: 'Coming soon',
+    placeholder: true,
+  },
+} satisfies Record<InteractionKey, InteractionDefinition>;
+
+export function getInteraction(key: InteractionKey): InteractionDefinition {
+  return interactions[key];
+}
+
+/** The card's stored bests as "best 120 pts · endless best 340 pts", or null before any scored run. */
+export function formatCardBests(key: InteractionKey, progress: CardProgress | undefined): string | null {
+  const { formatBest, scoreVariants = {} } = getInteraction(key);
+  if (!formatBest || !progress) return null;
+  const parts = progress.bestScore !== null ? [`best ${formatBest(progress.bestScore)}`] : [];
+  Object.entries(scoreVariants).forEach(([variant, name]) => {
+    const best = progress.variantBestScores[variant];
+    if (best !== undefined) parts.push(`${name} best ${formatBest(best)}`);
+  });
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/** Warms the overlay chunk for a card the player is likely to open next. */
+export function preloadInteraction(key: InteractionKey) {
+  void interactions[key].preload().catch(() => undefined);
+}
+
+export function retryInteraction(key: InteractionKey) {
+  interactions[key].retry();
+}
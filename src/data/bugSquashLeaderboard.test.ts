@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  LEADERBOARD_SIZE,
+  readLeaderboard,
+  recordLeaderboardRun,
+  runAccuracy,
+  type BugSquashRun,
+} from './bugSquashLeaderboard';
+
+const SPRINT_KEY = 'bugSquashLeaderboard';
+
+function run(score: number, playedAt: number): BugSquashRun {
+  return { score, bugsSquashed: score / 10, shotsFired: 20, hits: 10, playedAt };
+}
+
+describe('bug squash leaderboard', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, String(value)),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('ranks runs by score and keeps only the top ten', () => {
+    for (let i = 1; i <= LEADERBOARD_SIZE; i++) recordLeaderboardRun('sprint', run(i * 10, i));
+
+    const result = recordLeaderboardRun('sprint', run(55, 100));
+    expect(result.rank).toBe(6);
+    expect(result.entries).toHaveLength(LEADERBOARD_SIZE);
+    expect(result.entries.map(({ score }) => score)).toEqual([100, 90, 80, 70, 60, 55, 50, 40, 30, 20]);
+    expect(readLeaderboard('sprint')).toEqual(result.entries);
+  });
+
+  it('ranks a tie below the earlier run', () => {
+    recordLeaderboardRun('sprint', run(50, 1));
+    const repeat = run(50, 2);
+
+    const result = recordLeaderboardRun('sprint', repeat);
+    expect(result.rank).toBe(2);
+    expect(result.entries[0].playedAt).toBe(1);
+  });
+
+  it('returns a null rank when the run misses a full table', () => {
+    for (let i = 1; i <= LEADERBOARD_SIZE; i++) recordLeaderboardRun('sprint', run(i * 10, i));
+
+    const result = recordLeaderboardRun('sprint', run(5, 100));
+    expect(result.rank).toBeNull();
+    expect(result.entries).toHaveLength(LEADERBOARD_SIZE);
+    expect(result.entries.some(({ playedAt }) => playedAt === 100)).toBe(false);
+  });
+
+  it('keeps sprint and endless runs in separate tables', () => {
+    recordLeaderboardRun('sprint', run(40, 1));
+    expect(recordLeaderboardRun('endless', run(10, 2)).rank).toBe(1);
+    expect(readLeaderboard('sprint').map(({ score }) => score)).toEqual([40]);
+  });
+
+  it('drops stored entries that are not runs and ignores unreadable storage', () => {
+    storage.set(SPRINT_KEY, JSON.stringify([run(30, 1), { score: 'lots' }, null, { ...run(90, 2), hits: Infinity }]));
+    expect(readLeaderboard('sprint')).toEqual([run(30, 1)]);
+
+    storage.set(SPRINT_KEY, '{not json');
+    expect(readLeaderboard('sprint')).toEqual([]);
+    storage.set(SPRINT_KEY, JSON.stringify({ score: 10 }));
+    expect(readLeaderboard('sprint')).toEqual([]);
+  });
+});
+
+describe('runAccuracy', () => {
+  it('rounds hits over shots to a whole percentage, and is 0 without shots', () => {
+    expect(runAccuracy({ shotsFired: 3, hits: 2 })).toBe(67);
+    expect(runAccuracy({ shotsFired: 0, hits: 0 })).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+/** `sprint` is the original 30-second session; `endless` runs named waves until production goes down. */
+export type BugSquashMode = 'sprint' | 'endless';
+
+const LEADERBOARD_STORAGE_KEYS: Record<BugSquashMode, string> = {
+  sprint: 'bugSquashLeaderboard',
+  endless: 'bugSquashLeaderboard:endless',
+};
+export const LEADERBOARD_SIZE = 10;
+
+export interface BugSquashRun {
+  score: number;
+  bugsSquashed: number;
+  shotsFired: number;
+  hits: number;
+  playedAt: number;
+}
+
+export interface LeaderboardResult {
+  entries: BugSquashRun[];
+  /** 1-based position of the recorded run, or null when it didn't make the table. */
+  rank: number | null;
+}
+
+function isRun(raw: unknown): raw is BugSquashRun {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return ['score', 'bugsSquashed', 'shotsFired', 'hits', 'playedAt'].every(
+    (key) => typeof record[key] === 'number' && Number.isFinite(record[key]),
+  );
+}
+
+/** Higher score first; ties go to the earlier run so a repeat doesn't bump the original. */
+function compareRuns(a: BugSquashRun, b: BugSquashRun) {
+  return b.score - a.score || a.playedAt - b.playedAt;
+}
+
+export function readLeaderboard(mode: BugSquashMode): BugSquashRun[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(LEADERBOARD_STORAGE_KEYS[mode]);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isRun).sort(compareRuns).slice(0, LEADERBOARD_SIZE);
+  } catch {
+    return [];
+  }
+}
+
+export function recordLeaderboardRun(mode: BugSquashMode, run: BugSquashRun): LeaderboardResult {
+  const entries = [...readLeaderboard(mode), run].sort(compareRuns).slice(0, LEADERBOARD_SIZE);
+  const index = entries.indexOf(run);
+
+  try {
+    localStorage.setItem(LEADERBOARD_STORAGE_KEYS[mode], JSON.stringify(entries));
+  } catch {
+    // ignore storage failures
+  }
+  return { entries, rank: index === -1 ? null : index + 1 };
+}
+
+/** Share of fired bullets that hit a bug, as a whole percentage. */
+export function runAccuracy(run: Pick<BugSquashRun, 'shotsFired' | 'hits'>): number {
+  if (run.shotsFired === 0) return 0;
+  return Math.round((run.hits / run.shotsFired) * 100);
+}
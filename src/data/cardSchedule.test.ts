@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { CardData, Deck } from './cards';
+import {
+  applySchedule,
+  getCardAvailability,
+  MAX_TIMEOUT_MS,
+  nextScheduleChange,
+  scheduleCheckDelay,
+} from './cardSchedule';
+
+const RELEASE = Date.UTC(2026, 10, 2, 9);
+const RETIREMENT = Date.UTC(2026, 11, 1);
+
+function card(id: string, fields: Partial<CardData> = {}): CardData {
+  return { id, interaction: 'scroll', color: '#2E84FF', label: id, headline: id, reward: id, ...fields };
+}
+
+function deckOf(cards: CardData[], desktopCenterId: string): Deck {
+  return { cards, stack: cards, desktop: cards, desktopCenterId, rewardUtm: {} };
+}
+
+describe('getCardAvailability', () => {
+  const scheduled = card('a', { availableFrom: RELEASE, availableUntil: RETIREMENT });
+
+  it('releases a card exactly at availableFrom', () => {
+    expect(getCardAvailability(scheduled, RELEASE - 1)).toBe('upcoming');
+    expect(getCardAvailability(scheduled, RELEASE)).toBe('available');
+  });
+
+  it('retires a card exactly at availableUntil', () => {
+    expect(getCardAvailability(scheduled, RETIREMENT - 1)).toBe('available');
+    expect(getCardAvailability(scheduled, RETIREMENT)).toBe('expired');
+  });
+
+  it('keeps unscheduled cards available', () => {
+    expect(getCardAvailability(card('b'), RELEASE)).toBe('available');
+  });
+});
+
+describe('nextScheduleChange', () => {
+  const cards = [card('a', { availableFrom: RELEASE, availableUntil: RETIREMENT }), card('b')];
+
+  it('finds the nearest release or retirement still ahead', () => {
+    expect(nextScheduleChange(cards, RELEASE - 1000)).toBe(RELEASE);
+    expect(nextScheduleChange(cards, RELEASE)).toBe(RETIREMENT);
+    expect(nextScheduleChange(cards, RETIREMENT)).toBeNull();
+  });
+
+  it('waits out a near change directly and a far-off one in capped steps', () => {
+    expect(scheduleCheckDelay(cards, RELEASE - 1000)).toBe(1000);
+    expect(scheduleCheckDelay(cards, RELEASE - 60 * 86_400_000)).toBe(MAX_TIMEOUT_MS);
+    expect(scheduleCheckDelay(cards, RETIREMENT)).toBeNull();
+  });
+});
+
+describe('applySchedule', () => {
+  const upcoming = card('upcoming', { interaction: 'journal', availableFrom: RELEASE });
+  const retiring = card('retiring', { availableUntil: RETIREMENT });
+  const steady = card('steady');
+  const deck = deckOf([retiring, upcoming, steady], 'retiring');
+
+  it('shows an unreleased card as a teaser and swaps in its real interaction on the release date', () => {
+    const before = applySchedule(deck, RELEASE - 1);
+    expect(before.cards.find(({ id }) => id === 'upcoming')?.interaction).toBe('upcoming');
+
+    const after = applySchedule(deck, RELEASE);
+    expect(after.cards.find(({ id }) => id === 'upcoming')?.interaction).toBe('journal');
+  });
+
+  it('drops a retired card from every layout', () => {
+    const scheduled = applySchedule(deck, RETIREMENT);
+    [scheduled.cards, scheduled.stack, scheduled.desktop].forEach((cards) => {
+      expect(cards.map(({ id }) => id)).toEqual(['upcoming', 'steady']);
+    });
+  });
+
+  it('keeps the desktop center until it retires, then falls back to the first rail card', () => {
+    expect(applySchedule(deck, RETIREMENT - 1).desktopCenterId).toBe('retiring');
+    expect(applySchedule(deck, RETIREMENT).desktopCenterId).toBe('upcoming');
+  });
+});
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import type { CardData, Deck } from './cards';
+
+/** Browsers fire longer timeouts immediately, so far-off releases are re-checked in steps. */
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export type CardAvailability = 'upcoming' | 'available' | 'expired';
+
+export function getCardAvailability(card: CardData, now: number): CardAvailability {
+  if (card.availableFrom !== undefined && now < card.availableFrom) return 'upcoming';
+  if (card.availableUntil !== undefined && now >= card.availableUntil) return 'expired';
+  return 'available';
+}
+
+/** The next release or retirement after `now`, or null when the deck will not change again. */
+export function nextScheduleChange(cards: CardData[], now: number): number | null {
+  let next: number | null = null;
+  cards.forEach(({ availableFrom, availableUntil }) => {
+    [availableFrom, availableUntil].forEach((at) => {
+      if (at !== undefined && at > now && (next === null || at < next)) next = at;
+    });
+  });
+  return next;
+}
+
+/** How long to wait before re-checking the schedule, capped so a far-off change is reached in steps. */
+export function scheduleCheckDelay(cards: CardData[], now: number): number | null {
+  const next = nextScheduleChange(cards, now);
+  return next === null ? null : Math.min(next - now, MAX_TIMEOUT_MS);
+}
+
+/**
+ * The deck as it should look at `now`: retired cards are dropped everywhere and unreleased
+ * cards swap to the `upcoming` teaser until their release date.
+ */
+export function applySchedule(deck: Deck, now: number): Deck {
+  const scheduled = new Map<string, CardData | null>();
+  deck.cards.forEach((card) => {
+    const availability = getCardAvailability(card, now);
+    if (availability === 'expired') {
+      scheduled.set(card.id, null);
+    } else if (availability === 'upcoming') {
+      scheduled.set(card.id, { ...card, interaction: 'upcoming' });
+    } else {
+      scheduled.set(card.id, card);
+    }
+  });
+
+  const pick = (cards: CardData[]) => cards
+    .map((card) => scheduled.get(card.id) ?? null)
+    .filter((card): card is CardData => card !== null);
+
+  const desktop = pick(deck.desktop);
+  return {
+    ...deck,
+    cards: pick(deck.cards),
+    stack: pick(deck.stack),
+    desktop,
+    desktopCenterId: desktop.some((card) => card.id === deck.desktopCenterId)
+      ? deck.desktopCenterId
+      : desktop[0]?.id ?? deck.desktopCenterId,
+  };
+}
+
+/**
+ * Current time that only advances when a card in `cards` is released or retired (and when
+ * the tab comes back into view), so a scheduled drop goes live without a reload.
+ */
+export function useScheduleClock(cards: CardData[]): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const delay = scheduleCheckDelay(cards, now);
+    if (delay === null) return;
+    const timeout = window.setTimeout(() => setNow(Date.now()), delay);
+    return () => window.clearTimeout(timeout);
+  }, [cards, now]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') setNow(Date.now());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  return now;
+}
+
+/** Formats the time left until `target` as `2d 4h`, `3h 12m`, or `4m 05s`. */
+export function formatCountdown(target: number, now: number): string {
+  const totalSeconds = Math.max(0, Math.ceil((target - now) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
+
+/** Unlock date as shown to players, e.g. "Mon, Oct 26, 9:00 AM". */
+export function formatUnlockDate(at: number): string {
+  return new Date(at).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
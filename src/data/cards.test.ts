@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import bundledManifest from './deck.json';
+import { DeckManifestError, parseDeckManifest } from './cards';
+
+function card(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    interaction: 'scroll',
+    color: '#2E84FF',
+    label: `Label ${id}`,
+    headline: `Card ${id}`,
+    reward: `Reward ${id}`,
+    ...fields,
+  };
+}
+
+/** The problems `parseDeckManifest` reports for `raw`, or an empty list when it parses. */
+function problemsOf(raw: unknown): string[] {
+  try {
+    parseDeckManifest(raw, 'test');
+    return [];
+  } catch (error) {
+    if (!(error instanceof DeckManifestError)) throw error;
+    return error.problems;
+  }
+}
+
+describe('parseDeckManifest', () => {
+  it('parses the bundled deck', () => {
+    const deck = parseDeckManifest(bundledManifest, 'src/data/deck.json');
+    expect(deck.cards.length).toBeGreaterThan(0);
+    expect(deck.desktop.some((entry) => entry.id === deck.desktopCenterId)).toBe(true);
+  });
+
+  it('defaults both layouts to manifest order and centers the first desktop card', () => {
+    const deck = parseDeckManifest({ cards: [card('a'), card('b')] }, 'test');
+    expect(deck.stack.map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(deck.desktop.map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(deck.desktopCenterId).toBe('a');
+  });
+
+  it('orders each layout as listed, leaving cards out of the stack when asked', () => {
+    const deck = parseDeckManifest(
+      {
+        cards: [card('a'), card('b'), card('c')],
+        layout: { stack: ['c', 'a'], desktop: ['b', 'c', 'a'], desktopCenter: 'c' },
+      },
+      'test',
+    );
+    expect(deck.stack.map(({ id }) => id)).toEqual(['c', 'a']);
+    expect(deck.desktop.map(({ id }) => id)).toEqual(['b', 'c', 'a']);
+    expect(deck.desktopCenterId).toBe('c');
+  });
+
+  it('rejects unknown and duplicate layout ids and a center outside the rail', () => {
+    expect(
+      problemsOf({
+        cards: [card('a'), card('b')],
+        layout: { stack: ['a', 'a', 'z'], desktop: ['b'], desktopCenter: 'a' },
+      }),
+    ).toEqual([
+      'layout.stack: card "a" is listed more than once',
+      'layout.stack: unknown card id "z"',
+      'layout.desktopCenter: must be the id of a card in layout.desktop, got "a"',
+    ]);
+  });
+
+  it('rejects interaction keys the registry does not know, and the reserved teaser key', () => {
+    const problems = problemsOf({ cards: [card('a', { interaction: 'tetris' }), card('b', { interaction: 'upcoming' })] });
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^cards\[0\] \("a"\): "interaction" must be one of scroll, .*, got "tetris"$/);
+    expect(problems[1]).toMatch(/got "upcoming"$/);
+    expect(problems[0]).not.toContain('upcoming');
+  });
+
+  it('accepts 3- and 6-digit hex colors only', () => {
+    expect(problemsOf({ cards: [card('a', { color: '#abc' }), card('b', { color: '#A1B2C3' })] })).toEqual([]);
+    expect(problemsOf({ cards: [card('a', { color: 'red' })] })).toEqual([
+      'cards[0] ("a"): "color" must be a hex color like #d32622, got "red"',
+    ]);
+  });
+
+  it('parses ISO release dates and rejects anything else', () => {
+    const deck = parseDeckManifest(
+      { cards: [card('a', { availableFrom: '2026-11-02T09:00:00Z', availableUntil: '2026-12-01T00:00:00Z' })] },
+      'test',
+    );
+    expect(deck.cards[0].availableFrom).toBe(Date.UTC(2026, 10, 2, 9));
+    expect(deck.cards[0].availableUntil).toBe(Date.UTC(2026, 11, 1));
+
+    expect(problemsOf({ cards: [card('a', { availableFrom: 'next tuesday' })] })).toEqual([
+      'cards[0] ("a"): "availableFrom" must be an ISO date like 2026-11-02T09:00:00Z, got "next tuesday"',
+    ]);
+  });
+
+  it('requires retirement to come after release', () => {
+    const sameInstant = '2026-11-02T09:00:00Z';
+    expect(problemsOf({ cards: [card('a', { availableFrom: sameInstant, availableUntil: sameInstant })] })).toEqual([
+      'cards[0] ("a"): "availableUntil" must be later than "availableFrom"',
+    ]);
+  });
+
+  it('reports prerequisites on the card itself, on unknown cards, and in loops', () => {
+    expect(problemsOf({ cards: [card('a', { requires: ['a', 'z'] })] })).toEqual([
+      'card "a": "requires" lists the card itself',
+      'card "a": "requires" refers to unknown card id "z"',
+    ]);
+    expect(
+      problemsOf({
+        cards: [card('a', { requires: ['b'] }), card('b', { requires: ['c'] }), card('c', { requires: ['a'] })],
+      }),
+    ).toEqual(['"requires" forms a loop: "a" -> "b" -> "c" -> "a"']);
+  });
+
+  it('collects every problem with a card, plus duplicate ids and a missing cards array', () => {
+    const problems = problemsOf({ cards: [card('a', { color: 'red', extra: true }), card('a')] });
+    expect(problems).toEqual([
+      'cards[0] ("a"): unknown field "extra" (expected one of id, interaction, color, label, headline, subtext, reward, url, media, availableFrom, availableUntil, requires)',
+      'cards[0] ("a"): "color" must be a hex color like #d32622, got "red"',
+    ]);
+    expect(problemsOf({ cards: [card('a'), card('a')] })).toEqual(['cards[1]: duplicate id "a"']);
+    expect(problemsOf({})).toEqual(['manifest must be an object with a "cards" array']);
+  });
+});
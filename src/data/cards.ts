@@ -1,4 +1,5 @@
-import scrollCardImage from '../assets/Scroll.svg';
+import bundledManifest from './deck.json';
+import { INTERACTION_KEYS, isInteractionKey, type InteractionKey } from './interactionKeys';
 
 export interface CardData {
   id: string;
@@ -10,64 +11,361 @@ export interface CardData {
   image?: string;
   video?: string;
   subtext?: string;
-  /** If false, card is not included in the fanned stack (still used for dots/count). */
-  includeInStack?: boolean;
+  /** Registry key for the overlay and front face this card opens. */
+  interaction: InteractionKey;
+  /** Release time in ms; until then the card shows a countdown teaser instead of its interaction. */
+  availableFrom?: number;
+  /** Retirement time in ms; from then on the card leaves the deck. */
+  availableUntil?: number;
+  /** Card ids that must be solved before this one can be opened. */
+  requires?: string[];
 }
 
-export const cards: CardData[] = [
-  {
-    id: "2",
-    color: "#0f5f34",
-    label: "Truffle Security",
-    headline: "Vibe Coding",
-    subtext: "When the code writes itself and you just watch.",
-    reward: "Truffle Security",
-    url: "https://www.trufflesecurity.com",
-    image: "https://vemula.me/images/cards/stax2.png",
-  },
-  {
-    id: "3",
-    color: "#d32622",
-    label: "CNN",
-    headline: "Doomscrolling",
-    subtext: "You know you should stop. You won't.",
-    reward: "CNN",
-    url: "https://www.cnn.com",
-    image: "https://vemula.me/images/cards/truffle.png",
-  },
-  // Scroll card (opens ScrollInteraction)
-  {
-    id: "1",
-    color: "#2E84FF",
-    label: "Scroll",
-    headline: "Scroll",
-    subtext: "Totally addictive, totally pointless.",
-    reward: "Scroll",
-    image: scrollCardImage,
-    video: undefined,
-  },
-  {
-    id: "9",
-    color: "#CFAB71",
-    label: "Diary",
-    headline: "Diary",
-    subtext: "words that fade away",
-    reward: "Diary",
-  },
-  {
-    id: "11",
-    color: "#646464",
-    label: "more coming soon",
-    headline: "more coming soon",
-    subtext: "Building more",
-    reward: "more coming soon",
-  },
-  {
-    id: "10",
-    color: "#646464",
-    label: "being watched",
-    headline: "being watched",
-    subtext: "You are being watched",
-    reward: "being watched",
-  },
+/** A validated manifest: every card once, plus the orderings each layout renders. */
+export interface Deck {
+  cards: CardData[];
+  /** Fanned stack, bottom card first; the last entry is on top. */
+  stack: CardData[];
+  /** Desktop rail, left to right. */
+  desktop: CardData[];
+  /** Rail card that starts in the middle of the screen. */
+  desktopCenterId: string;
+  /** UTM parameters added to reward links; `{card}` in a value becomes the card id. */
+  rewardUtm: Record<string, string>;
+}
+
+/** Thrown with every problem found in a manifest, one per line, so a bad deck is fixed in one pass. */
+export class DeckManifestError extends Error {
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid deck manifest (${source}):\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'DeckManifestError';
+    this.problems = problems;
+  }
+}
+
+/** Remote manifest location; when unset the deck bundled with the build is used. */
+const DECK_URL: string | undefined = import.meta.env.VITE_DECK_URL || undefined;
+/** Nothing renders until the manifest settles, so a stalled host falls back to the bundled deck. */
+const DECK_FETCH_TIMEOUT_MS = 4000;
+
+const ASSET_PREFIX = 'asset:';
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const CARD_KEYS = [
+  'id',
+  'interaction',
+  'color',
+  'label',
+  'headline',
+  'subtext',
+  'reward',
+  'url',
+  'media',
+  'availableFrom',
+  'availableUntil',
+  'requires',
 ];
+/** Registry keys the schedule assigns at runtime; a manifest can't pick them directly. */
+const RESERVED_INTERACTIONS: string[] = ['upcoming'];
+const MEDIA_KEYS = ['image', 'video'];
+
+/** Bundled files a manifest can reference as `asset:<file name>`. */
+const assetUrls = import.meta.glob<string>('../assets/*', { eager: true, import: 'default' });
+
+function resolveMedia(value: string): string | null {
+  if (!value.startsWith(ASSET_PREFIX)) return value;
+  return assetUrls[`../assets/${value.slice(ASSET_PREFIX.length)}`] ?? null;
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw);
+}
+
+function parseCard(raw: unknown, where: string, problems: string[]): CardData | null {
+  if (!isRecord(raw)) {
+    problems.push(`${where}: must be an object`);
+    return null;
+  }
+  const label = typeof raw.id === 'string' ? `${where} ("${raw.id}")` : where;
+  const problemCount = problems.length;
+
+  const requireText = (key: string) => {
+    const value = raw[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      problems.push(`${label}: "${key}" must be a non-empty string`);
+      return '';
+    }
+    return value;
+  };
+  const optionalText = (key: string) => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+      problems.push(`${label}: "${key}" must be a string when present`);
+      return undefined;
+    }
+    return value;
+  };
+
+  Object.keys(raw)
+    .filter((key) => !CARD_KEYS.includes(key))
+    .forEach((key) => problems.push(`${label}: unknown field "${key}" (expected one of ${CARD_KEYS.join(', ')})`));
+
+  const id = requireText('id');
+  const headline = requireText('headline');
+  const cardLabel = requireText('label');
+  const reward = requireText('reward');
+  const subtext = optionalText('subtext');
+
+  const color = requireText('color');
+  if (color && !HEX_COLOR.test(color)) {
+    problems.push(`${label}: "color" must be a hex color like #d32622, got "${color}"`);
+  }
+
+  const interaction = requireText('interaction');
+  if (interaction && (!isInteractionKey(interaction) || RESERVED_INTERACTIONS.includes(interaction))) {
+    const allowed = INTERACTION_KEYS.filter((key) => !RESERVED_INTERACTIONS.includes(key));
+    problems.push(`${label}: "interaction" must be one of ${allowed.join(', ')}, got "${interaction}"`);
+  }
+
+  const readDate = (key: string) => {
+    const text = optionalText(key);
+    if (text === undefined) return undefined;
+    const at = Date.parse(text);
+    if (Number.isNaN(at)) {
+      problems.push(`${label}: "${key}" must be an ISO date like 2026-11-02T09:00:00Z, got "${text}"`);
+      return undefined;
+    }
+    return at;
+  };
+  const availableFrom = readDate('availableFrom');
+  const availableUntil = readDate('availableUntil');
+  if (availableFrom !== undefined && availableUntil !== undefined && availableUntil <= availableFrom) {
+    problems.push(`${label}: "availableUntil" must be later than "availableFrom"`);
+  }
+
+  let requires: string[] | undefined;
+  if (raw.requires !== undefined) {
+    if (!Array.isArray(raw.requires) || raw.requires.some((id) => typeof id !== 'string' || id === '')) {
+      problems.push(`${label}: "requires" must be an array of card ids`);
+    } else {
+      requires = raw.requires as string[];
+    }
+  }
+
+  const url = optionalText('url');
+  if (url !== undefined && !/^https?:\/\//.test(url)) {
+    problems.push(`${label}: "url" must start with http:// or https://, got "${url}"`);
+  }
+
+  let image: string | undefined;
+  let video: string | undefined;
+  if (raw.media !== undefined) {
+    if (!isRecord(raw.media)) {
+      problems.push(`${label}: "media" must be an object with "image" and/or "video"`);
+    } else {
+      const media = raw.media;
+      Object.keys(media)
+        .filter((key) => !MEDIA_KEYS.includes(key))
+        .forEach((key) => problems.push(`${label}: unknown media field "${key}" (expected image or video)`));
+      const readMedia = (key: string) => {
+        const value = media[key];
+        if (value === undefined) return undefined;
+        if (typeof value !== 'string' || value === '') {
+          problems.push(`${label}: "media.${key}" must be a non-empty string`);
+          return undefined;
+        }
+        const resolved = resolveMedia(value);
+        if (resolved === null) {
+          problems.push(`${label}: "media.${key}" refers to "${value}", which is not in src/assets`);
+          return undefined;
+        }
+        return resolved;
+      };
+      image = readMedia('image');
+      video = readMedia('video');
+    }
+  }
+
+  if (problems.length > problemCount) return null;
+  return {
+    id,
+    interaction: interaction as InteractionKey,
+    color,
+    label: cardLabel,
+    headline,
+    subtext,
+    reward,
+    url,
+    image,
+    video,
+    availableFrom,
+    availableUntil,
+    requires,
+  };
+}
+
+/** Reports prerequisites that point nowhere, and chains that loop back so no card in them could ever open. */
+function checkRequirements(cards: CardData[], cardById: Map<string, CardData>, problems: string[]) {
+  cards.forEach((card) => {
+    card.requires?.forEach((id) => {
+      if (id === card.id) {
+        problems.push(`card "${card.id}": "requires" lists the card itself`);
+      } else if (!cardById.has(id)) {
+        problems.push(`card "${card.id}": "requires" refers to unknown card id "${id}"`);
+      }
+    });
+  });
+
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const reported = new Set<string>();
+  const visit = (id: string, path: string[]) => {
+    if (done.has(id)) return;
+    if (visiting.has(id)) {
+      const loop = [...path.slice(path.indexOf(id)), id];
+      const signature = [...new Set(loop)].sort().join(',');
+      if (!reported.has(signature)) {
+        reported.add(signature);
+        problems.push(`"requires" forms a loop: ${loop.map((step) => `"${step}"`).join(' -> ')}`);
+      }
+      return;
+    }
+    visiting.add(id);
+    cardById.get(id)?.requires?.forEach((next) => {
+      if (next !== id && cardById.has(next)) visit(next, [...path, id]);
+    });
+    visiting.delete(id);
+    done.add(id);
+  };
+  cards.forEach((card) => visit(card.id, []));
+}
+
+function parseOrder(
+  raw: unknown,
+  name: string,
+  cardById: Map<string, CardData>,
+  fallback: CardData[],
+  problems: string[]
+): CardData[] {
+  if (raw === undefined) return fallback;
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== 'string')) {
+    problems.push(`layout.${name}: must be an array of card ids`);
+    return [];
+  }
+  const seen = new Set<string>();
+  const ordered: CardData[] = [];
+  (raw as string[]).forEach((id) => {
+    const card = cardById.get(id);
+    if (!card) {
+      problems.push(`layout.${name}: unknown card id "${id}"`);
+    } else if (seen.has(id)) {
+      problems.push(`layout.${name}: card "${id}" is listed more than once`);
+    } else {
+      seen.add(id);
+      ordered.push(card);
+    }
+  });
+  return ordered;
+}
+
+/**
+ * Validates a manifest of the shape in `deck.json`. Layout lists are optional and default
+ * to manifest order; a card left out of `layout.stack` only appears in the desktop rail.
+ */
+export function parseDeckManifest(raw: unknown, source: string): Deck {
+  const problems: string[] = [];
+  if (!isRecord(raw) || !Array.isArray(raw.cards)) {
+    throw new DeckManifestError(source, ['manifest must be an object with a "cards" array']);
+  }
+
+  const cards: CardData[] = [];
+  const cardById = new Map<string, CardData>();
+  raw.cards.forEach((entry, index) => {
+    const card = parseCard(entry, `cards[${index}]`, problems);
+    if (!card) return;
+    if (cardById.has(card.id)) {
+      problems.push(`cards[${index}]: duplicate id "${card.id}"`);
+      return;
+    }
+    cardById.set(card.id, card);
+    cards.push(card);
+  });
+  if (raw.cards.length === 0) {
+    problems.push('"cards" must contain at least one card');
+  }
+  checkRequirements(cards, cardById, problems);
+
+  const layout = raw.layout ?? {};
+  if (!isRecord(layout)) {
+    problems.push('"layout" must be an object');
+  }
+  const layoutFields = isRecord(layout) ? layout : {};
+  const stack = parseOrder(layoutFields.stack, 'stack', cardById, cards, problems);
+  const desktop = parseOrder(layoutFields.desktop, 'desktop', cardById, cards, problems);
+
+  if (cards.length > 0 && desktop.length === 0) {
+    problems.push('layout.desktop: must list at least one card');
+  }
+
+  const rewardUtm: Record<string, string> = {};
+  if (raw.rewardUtm !== undefined) {
+    if (!isRecord(raw.rewardUtm)) {
+      problems.push('"rewardUtm" must be an object of utm_* parameters');
+    } else {
+      Object.entries(raw.rewardUtm).forEach(([key, value]) => {
+        if (!/^utm_[a-z_]+$/.test(key)) {
+          problems.push(`rewardUtm: "${key}" is not a UTM parameter (expected utm_source, utm_medium, ...)`);
+        } else if (typeof value !== 'string' || value === '') {
+          problems.push(`rewardUtm: "${key}" must be a non-empty string`);
+        } else {
+          rewardUtm[key] = value;
+        }
+      });
+    }
+  }
+
+  const center = layoutFields.desktopCenter;
+  if (center !== undefined && (typeof center !== 'string' || !desktop.some((card) => card.id === center))) {
+    problems.push(`layout.desktopCenter: must be the id of a card in layout.desktop, got ${JSON.stringify(center)}`);
+  }
+
+  if (problems.length > 0) {
+    throw new DeckManifestError(source, problems);
+  }
+  return {
+    cards,
+    stack,
+    desktop,
+    desktopCenterId: typeof center === 'string' ? center : desktop[0].id,
+    rewardUtm,
+  };
+}
+
+/** Parsed on demand rather than at import, so a broken bundled deck rejects `loadDeck` instead of blanking the page. */
+function parseBundledDeck(): Deck {
+  return parseDeckManifest(bundledManifest, 'src/data/deck.json');
+}
+
+/**
+ * Fetches the deck from `VITE_DECK_URL` when configured. A missing or invalid remote
+ * manifest is reported to the console and the bundled deck is used instead; an invalid
+ * bundled deck rejects with its `DeckManifestError`.
+ */
+export async function loadDeck(): Promise<Deck> {
+  if (!DECK_URL) return parseBundledDeck();
+  try {
+    const response = await fetch(DECK_URL, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(DECK_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Deck manifest request to ${DECK_URL} failed with ${response.status}`);
+    }
+    return parseDeckManifest(await response.json(), DECK_URL);
+  } catch (error) {
+    console.error(error);
+    return parseBundledDeck();
+  }
+}
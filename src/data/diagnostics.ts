@@ -0,0 +1,52 @@
+const DIAGNOSTICS_STORAGE_KEY = 'diagnosticsLog';
+/** Only the latest crashes are worth keeping for a bug report. */
+const MAX_DIAGNOSTICS = 50;
+
+/** `render` errors come through React; `runtime` ones escaped an animation loop or timer. */
+export type DiagnosticSource = 'render' | 'runtime';
+
+/** A crashed interaction, kept on this device only so players can attach it to bug reports. */
+export interface DiagnosticEntry {
+  at: number;
+  cardId: string;
+  interaction: string;
+  source: DiagnosticSource;
+  message: string;
+  stack?: string;
+  /** Session seed, so the crash can be replayed with `?seed=`. */
+  seed?: string;
+}
+
+function isDiagnosticEntry(raw: unknown): raw is DiagnosticEntry {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return typeof record.at === 'number'
+    && typeof record.cardId === 'string'
+    && typeof record.interaction === 'string'
+    && (record.source === 'render' || record.source === 'runtime')
+    && typeof record.message === 'string'
+    && (record.stack === undefined || typeof record.stack === 'string')
+    && (record.seed === undefined || typeof record.seed === 'string');
+}
+
+/** Logged crashes, oldest first. */
+export function readDiagnostics(): DiagnosticEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(DIAGNOSTICS_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isDiagnosticEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordDiagnostic(entry: Omit<DiagnosticEntry, 'at'>) {
+  const entries = [...readDiagnostics(), { ...entry, at: Date.now() }].slice(-MAX_DIAGNOSTICS);
+  try {
+    localStorage.setItem(DIAGNOSTICS_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // ignore storage failures
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Every key the interaction registry defines. Kept out of the registry so the deck parser can
+ * check manifests without pulling in overlays and card faces; the registry must cover them all.
+ */
+export const INTERACTION_KEYS = [
+  'scroll',
+  'vibeCoding',
+  'reorganize',
+  'journal',
+  'scratch',
+  'touchGrass',
+  'beingWatched',
+  'moreComingSoon',
+  'upcoming',
+] as const;
+
+export type InteractionKey = (typeof INTERACTION_KEYS)[number];
+
+export function isInteractionKey(value: string): value is InteractionKey {
+  return (INTERACTION_KEYS as readonly string[]).includes(value);
+}
@@ -0,0 +1,134 @@
+const ARCHIVE_STORAGE_KEY = 'journalArchive';
+const KEEP_COPY_STORAGE_KEY = 'journalKeepCopy';
+
+export type TextAlignMode = 'left' | 'center' | 'right';
+
+export type FormatSnapshot = {
+  bold: boolean;
+  italic: boolean;
+  size: number;
+  align: TextAlignMode;
+};
+
+export interface ArchivedWord {
+  text: string;
+  format: FormatSnapshot;
+  /** Whitespace typed after the word: a space, or a newline that ends the line. */
+  separator: ' ' | '\n';
+}
+
+/** One diary session: every word completed between opening and closing the card. */
+export interface JournalEntry {
+  id: string;
+  createdAt: number;
+  words: ArchivedWord[];
+}
+
+export type ExportFormat = 'markdown' | 'text';
+
+function isFormatSnapshot(raw: unknown): raw is FormatSnapshot {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return typeof record.bold === 'boolean'
+    && typeof record.italic === 'boolean'
+    && typeof record.size === 'number'
+    && (record.align === 'left' || record.align === 'center' || record.align === 'right');
+}
+
+function isArchivedWord(raw: unknown): raw is ArchivedWord {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return typeof record.text === 'string'
+    && isFormatSnapshot(record.format)
+    && (record.separator === ' ' || record.separator === '\n');
+}
+
+function isJournalEntry(raw: unknown): raw is JournalEntry {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return typeof record.id === 'string'
+    && typeof record.createdAt === 'number'
+    && Array.isArray(record.words)
+    && record.words.every(isArchivedWord);
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────
+
+export function readJournalArchive(): JournalEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(ARCHIVE_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isJournalEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeJournalArchive(entries: JournalEntry[]) {
+  try {
+    localStorage.setItem(ARCHIVE_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // ignore storage failures
+  }
+}
+
+/** Inserts or replaces the entry with the same id; entries without words are dropped. */
+export function saveJournalEntry(entry: JournalEntry) {
+  const others = readJournalArchive().filter((existing) => existing.id !== entry.id);
+  writeJournalArchive(entry.words.length > 0 ? [...others, entry] : others);
+}
+
+export function readKeepCopy(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(KEEP_COPY_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function writeKeepCopy(enabled: boolean) {
+  try {
+    localStorage.setItem(KEEP_COPY_STORAGE_KEY, String(enabled));
+  } catch {
+    // ignore storage failures
+  }
+}
+
+// ── Export ───────────────────────────────────────────────────────────────
+
+export function formatEntryDate(createdAt: number): string {
+  return new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_#[\]<>])/g, '\\$1');
+}
+
+function wordToMarkdown({ text, format }: ArchivedWord) {
+  const marker = `${format.bold ? '**' : ''}${format.italic ? '*' : ''}`;
+  return `${marker}${escapeMarkdown(text)}${[...marker].reverse().join('')}`;
+}
+
+function joinWords(words: ArchivedWord[], render: (word: ArchivedWord) => string, lineBreak: string) {
+  return words
+    .map((word) => `${render(word)}${word.separator === '\n' ? lineBreak : ' '}`)
+    .join('')
+    .trimEnd();
+}
+
+/** Markdown keeps bold and italic; size and alignment only survive in the in-app archive. */
+export function journalToMarkdown(entries: JournalEntry[]): string {
+  const sections = entries.map((entry) => (
+    `## ${formatEntryDate(entry.createdAt)}\n\n${joinWords(entry.words, wordToMarkdown, '  \n')}\n`
+  ));
+  return ['# Diary\n', ...sections].join('\n');
+}
+
+export function journalToPlainText(entries: JournalEntry[]): string {
+  return entries
+    .map((entry) => `${formatEntryDate(entry.createdAt)}\n\n${joinWords(entry.words, (word) => word.text, '\n')}\n`)
+    .join('\n');
+}
@@ -0,0 +1,175 @@
+import { pickOne, type Rng } from '../utils/random';
+
+const POEM_HISTORY_STORAGE_KEY = 'poemHistory';
+/** How many of the latest reveals are skipped when picking the next poem. */
+const RECENT_POEM_WINDOW = 3;
+
+export interface Poem {
+  id: string;
+  title: string;
+  author: string;
+  body: string;
+  /** Reveal background; falls back to the card's parchment color. */
+  background?: string;
+}
+
+export interface CollectedPoem {
+  poem: Poem;
+  unlockedAt: number;
+}
+
+interface PoemHistory {
+  /** Poem ids, most recently revealed first. */
+  recent: string[];
+  unlocked: Record<string, number>;
+}
+
+/** Public-domain poems; the first entry is the one every player meets first. */
+export const POEMS: Poem[] = [
+  {
+    id: 'noiseless-patient-spider',
+    title: 'A Noiseless Patient Spider',
+    author: 'Walt Whitman',
+    body: `A noiseless patient spider,
+I mark’d where on a little promontory it stood isolated,
+Mark’d how to explore the vacant vast surrounding,
+It launch’d forth filament, filament, filament, out of itself,
+Ever unreeling them, ever tirelessly speeding them.
+
+And you O my soul where you stand,
+Surrounded, detached, in measureless oceans of space,
+Ceaselessly musing, venturing, throwing, seeking the spheres
+to connect them,
+Till the bridge you will need be form’d, till the ductile anchor hold,
+Till the gossamer thread you fling catch somewhere, O my
+soul`,
+  },
+  {
+    id: 'hope-is-the-thing-with-feathers',
+    title: '“Hope” is the thing with feathers',
+    author: 'Emily Dickinson',
+    body: `“Hope” is the thing with feathers -
+That perches in the soul -
+And sings the tune without the words -
+And never stops - at all -
+
+And sweetest - in the Gale - is heard -
+And sore must be the storm -
+That could abash the little Bird
+That kept so many warm -
+
+I’ve heard it in the chillest land -
+And on the strangest Sea -
+Yet - never - in Extremity,
+It asked a crumb - of me.`,
+    background: '#EEF0E4',
+  },
+  {
+    id: 'nothing-gold-can-stay',
+    title: 'Nothing Gold Can Stay',
+    author: 'Robert Frost',
+    body: `Nature’s first green is gold,
+Her hardest hue to hold.
+Her early leaf’s a flower;
+But only so an hour.
+Then leaf subsides to leaf.
+So Eden sank to grief,
+So dawn goes down to day.
+Nothing gold can stay.`,
+    background: '#F7E7C4',
+  },
+  {
+    id: 'who-has-seen-the-wind',
+    title: 'Who Has Seen the Wind?',
+    author: 'Christina Rossetti',
+    body: `Who has seen the wind?
+Neither I nor you:
+But when the leaves hang trembling,
+The wind is passing through.
+
+Who has seen the wind?
+Neither you nor I:
+But when the trees bow down their heads,
+The wind is passing by.`,
+    background: '#E8EEF0',
+  },
+  {
+    id: 'there-will-come-soft-rains',
+    title: 'There Will Come Soft Rains',
+    author: 'Sara Teasdale',
+    body: `There will come soft rains and the smell of the ground,
+And swallows circling with their shimmering sound;
+
+And frogs in the pools singing at night,
+And wild plum trees in tremulous white;
+
+Robins will wear their feathery fire,
+Whistling their whims on a low fence-wire;
+
+And not one will know of the war, not one
+Will care at last when it is done.
+
+Not one would mind, neither bird nor tree,
+If mankind perished utterly;
+
+And Spring herself, when she woke at dawn
+Would scarcely know that we were gone.`,
+    background: '#EFE6EA',
+  },
+];
+
+function isPoemHistory(raw: unknown): raw is PoemHistory {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return Array.isArray(record.recent)
+    && record.recent.every((id) => typeof id === 'string')
+    && !!record.unlocked
+    && typeof record.unlocked === 'object'
+    && Object.values(record.unlocked).every((at) => typeof at === 'number');
+}
+
+function readPoemHistory(): PoemHistory {
+  const empty: PoemHistory = { recent: [], unlocked: {} };
+  if (typeof window === 'undefined') return empty;
+  try {
+    const stored = localStorage.getItem(POEM_HISTORY_STORAGE_KEY);
+    if (!stored) return empty;
+    const parsed: unknown = JSON.parse(stored);
+    return isPoemHistory(parsed) ? parsed : empty;
+  } catch {
+    return empty;
+  }
+}
+
+function writePoemHistory(history: PoemHistory) {
+  try {
+    localStorage.setItem(POEM_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // ignore storage failures
+  }
+}
+
+/** Picks a random poem outside the recent window; first-time players always get the first poem. */
+export function pickNextPoem(rng: Rng): Poem {
+  const { recent } = readPoemHistory();
+  if (recent.length === 0) return POEMS[0];
+  const skipped = new Set(recent.slice(0, Math.min(RECENT_POEM_WINDOW, POEMS.length - 1)));
+  const candidates = POEMS.filter((poem) => !skipped.has(poem.id));
+  return pickOne(rng, candidates);
+}
+
+export function recordPoemRevealed(poemId: string) {
+  const history = readPoemHistory();
+  writePoemHistory({
+    recent: [poemId, ...history.recent.filter((id) => id !== poemId)].slice(0, POEMS.length),
+    unlocked: { ...history.unlocked, [poemId]: history.unlocked[poemId] ?? Date.now() },
+  });
+}
+
+/** Unlocked poems in library order, for the "collected poems" view. */
+export function readCollectedPoems(): CollectedPoem[] {
+  const { unlocked } = readPoemHistory();
+  return POEMS
+    .filter((poem) => unlocked[poem.id] !== undefined)
+    .map((poem) => ({ poem, unlockedAt: unlocked[poem.id] }));
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** Literal rather than imported: the module has to be loaded fresh inside each test. */
+const PROGRESS_KEY = 'cardProgress';
+
+/** The store reads storage when its module loads, so each test imports a fresh copy after seeding it. */
+async function loadStore(seed: Record<string, string>) {
+  const storage = new Map(Object.entries(seed));
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, String(value)),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.resetModules();
+  const store = await import('./progress');
+  return { store, storage };
+}
+
+describe('progress store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('migrates the legacy solvedCards array to version 1 and drops the old key', async () => {
+    const { store, storage } = await loadStore({ solvedCards: JSON.stringify(['1', '3', 7]) });
+    const now = Date.now();
+
+    expect(store.getProgress()).toEqual({
+      version: 1,
+      cards: {
+        1: { firstPlayedAt: null, firstSolvedAt: now, attempts: 1, bestScore: null, variantBestScores: {}, lastPlayedAt: now },
+        3: { firstPlayedAt: null, firstSolvedAt: now, attempts: 1, bestScore: null, variantBestScores: {}, lastPlayedAt: now },
+      },
+    });
+    expect(storage.has('solvedCards')).toBe(false);
+    expect(JSON.parse(storage.get(PROGRESS_KEY)!)).toEqual(store.getProgress());
+  });
+
+  it('leaves progress from an unknown version untouched while still playing in memory', async () => {
+    const future = JSON.stringify({ version: 2, cards: { 1: { stars: 3 } } });
+    const { store, storage } = await loadStore({ [PROGRESS_KEY]: future });
+
+    expect(store.getProgress().cards).toEqual({});
+    store.recordCardAttempt('1');
+    store.recordCardScore('1', 3);
+
+    expect(store.getCardProgress('1')).toMatchObject({ attempts: 1, bestScore: 3 });
+    expect(storage.get(PROGRESS_KEY)).toBe(future);
+  });
+
+  it('falls back to empty progress when storage holds garbage', async () => {
+    const { store, storage } = await loadStore({ [PROGRESS_KEY]: '{not json' });
+
+    expect(store.getProgress()).toEqual({ version: 1, cards: {} });
+    store.recordCardSolved('1');
+    expect(JSON.parse(storage.get(PROGRESS_KEY)!).cards[1].firstSolvedAt).toBe(Date.now());
+  });
+});
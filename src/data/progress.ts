@@ -0,0 +1,316 @@
+import { useSyncExternalStore } from 'react';
+
+export const PROGRESS_STORAGE_KEY = 'cardProgress';
+/** Hard-mode runs keep their own progress so replaying doesn't erase the first clear. */
+const HARD_PROGRESS_STORAGE_KEY = 'cardProgress:hard';
+const DECK_MODE_STORAGE_KEY = 'deckMode';
+/** Pre-versioning key: a bare JSON array of solved card ids. */
+const LEGACY_SOLVED_STORAGE_KEY = 'solvedCards';
+const PROGRESS_VERSION = 1;
+
+/** `hard` is the replay offered once the whole deck is solved; interactions may tighten their rules. */
+export type DeckMode = 'normal' | 'hard';
+
+export interface CardProgress {
+  /** First time the card was opened in this mode; null for progress recorded before this was tracked. */
+  firstPlayedAt: number | null;
+  firstSolvedAt: number | null;
+  attempts: number;
+  bestScore: number | null;
+  /** Bests for rule variants scored differently from the card's default, e.g. tidy mode's penalised times. */
+  variantBestScores: Record<string, number>;
+  lastPlayedAt: number | null;
+}
+
+export interface ProgressState {
+  version: typeof PROGRESS_VERSION;
+  cards: Record<string, CardProgress>;
+}
+
+/** Which direction counts as an improvement: points go up, clear times go down. */
+export type ScoreOrder = 'higher' | 'lower';
+
+export interface ScoreResult {
+  best: number;
+  isNewBest: boolean;
+}
+
+const EMPTY_CARD_PROGRESS: CardProgress = {
+  firstPlayedAt: null,
+  firstSolvedAt: null,
+  attempts: 0,
+  bestScore: null,
+  variantBestScores: {},
+  lastPlayedAt: null,
+};
+
+// ── Loading & migration ──────────────────────────────────────────────────
+
+function emptyState(): ProgressState {
+  return { version: PROGRESS_VERSION, cards: {} };
+}
+
+function finiteOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function sanitizeScores(raw: unknown): Record<string, number> {
+  const scores: Record<string, number> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return scores;
+  Object.entries(raw as Record<string, unknown>).forEach(([variant, score]) => {
+    const value = finiteOrNull(score);
+    if (value !== null) scores[variant] = value;
+  });
+  return scores;
+}
+
+function sanitizeCardProgress(raw: unknown): CardProgress | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const attempts = finiteOrNull(record.attempts);
+  return {
+    firstPlayedAt: finiteOrNull(record.firstPlayedAt),
+    firstSolvedAt: finiteOrNull(record.firstSolvedAt),
+    attempts: attempts !== null && attempts > 0 ? Math.floor(attempts) : 0,
+    bestScore: finiteOrNull(record.bestScore),
+    variantBestScores: sanitizeScores(record.variantBestScores),
+    lastPlayedAt: finiteOrNull(record.lastPlayedAt),
+  };
+}
+
+/**
+ * Version 0 only knew which cards were solved, so the migration time stands in for the solve time.
+ * Ids aren't checked against the deck: the manifest may load later, and unknown ids are never read.
+ */
+function migrateFromSolvedIds(raw: unknown, now: number): ProgressState {
+  const state = emptyState();
+  if (!Array.isArray(raw)) return state;
+
+  raw.forEach((id) => {
+    if (typeof id === 'string') {
+      state.cards[id] = { ...EMPTY_CARD_PROGRESS, firstSolvedAt: now, attempts: 1, lastPlayedAt: now };
+    }
+  });
+  return state;
+}
+
+function parseStoredState(raw: unknown): ProgressState | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const record = raw as { version?: unknown; cards?: unknown };
+  if (record.version !== PROGRESS_VERSION || !record.cards || typeof record.cards !== 'object') {
+    return null;
+  }
+
+  const state = emptyState();
+  Object.entries(record.cards as Record<string, unknown>).forEach(([id, entry]) => {
+    const progress = sanitizeCardProgress(entry);
+    if (progress) state.cards[id] = progress;
+  });
+  return state;
+}
+
+/** A progress object stamped with a version this build doesn't know, e.g. written by a newer build before a rollback. */
+function hasUnknownVersion(raw: unknown): boolean {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return false;
+  const { version } = raw as { version?: unknown };
+  return typeof version === 'number' && version !== PROGRESS_VERSION;
+}
+
+interface LoadedProgress {
+  state: ProgressState;
+  /** False while storage holds progress this build can't read; it's kept as-is instead of being overwritten. */
+  writable: boolean;
+}
+
+function storageKeyFor(mode: DeckMode) {
+  return mode === 'hard' ? HARD_PROGRESS_STORAGE_KEY : PROGRESS_STORAGE_KEY;
+}
+
+function readStoredMode(): DeckMode {
+  if (typeof window === 'undefined') return 'normal';
+  try {
+    return localStorage.getItem(DECK_MODE_STORAGE_KEY) === 'hard' ? 'hard' : 'normal';
+  } catch {
+    return 'normal';
+  }
+}
+
+function readFromStorage(scope: DeckMode): LoadedProgress {
+  if (typeof window === 'undefined') return { state: emptyState(), writable: true };
+  try {
+    const stored = localStorage.getItem(storageKeyFor(scope));
+    if (stored) {
+      const raw: unknown = JSON.parse(stored);
+      return { state: parseStoredState(raw) ?? emptyState(), writable: !hasUnknownVersion(raw) };
+    }
+    if (scope === 'hard') return { state: emptyState(), writable: true };
+
+    const legacy = localStorage.getItem(LEGACY_SOLVED_STORAGE_KEY);
+    if (!legacy) return { state: emptyState(), writable: true };
+
+    const migrated = migrateFromSolvedIds(JSON.parse(legacy), Date.now());
+    localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(migrated));
+    localStorage.removeItem(LEGACY_SOLVED_STORAGE_KEY);
+    return { state: migrated, writable: true };
+  } catch {
+    return { state: emptyState(), writable: true };
+  }
+}
+
+// ── Store ────────────────────────────────────────────────────────────────
+
+let mode: DeckMode = readStoredMode();
+let { state, writable } = readFromStorage(mode);
+const listeners = new Set<() => void>();
+
+function writeState(next: ProgressState) {
+  state = next;
+  // Progress from an unknown version stays in storage; this session's play is kept in memory only
+  if (writable) {
+    try {
+      localStorage.setItem(storageKeyFor(mode), JSON.stringify(state));
+    } catch {
+      // ignore storage failures
+    }
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function updateCard(cardId: string, update: (previous: CardProgress) => CardProgress) {
+  const previous = state.cards[cardId] ?? EMPTY_CARD_PROGRESS;
+  writeState({
+    ...state,
+    cards: { ...state.cards, [cardId]: update(previous) },
+  });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+/** Current progress outside React, for event handlers that need the state right after a write. */
+export function getProgress(): ProgressState {
+  return state;
+}
+
+export function getCardProgress(cardId: string): CardProgress {
+  return state.cards[cardId] ?? EMPTY_CARD_PROGRESS;
+}
+
+export function isCardSolved(progress: CardProgress | undefined): boolean {
+  return Boolean(progress && progress.firstSolvedAt !== null);
+}
+
+/** Counts an opened interaction as an attempt. */
+export function recordCardAttempt(cardId: string) {
+  const now = Date.now();
+  updateCard(cardId, (previous) => ({
+    ...previous,
+    firstPlayedAt: previous.firstPlayedAt ?? now,
+    attempts: previous.attempts + 1,
+    lastPlayedAt: now,
+  }));
+}
+
+export function recordCardSolved(cardId: string) {
+  const now = Date.now();
+  updateCard(cardId, (previous) => ({
+    ...previous,
+    firstSolvedAt: previous.firstSolvedAt ?? now,
+    lastPlayedAt: now,
+  }));
+}
+
+/**
+ * Stores `score` if it beats the card's best and returns the best after this run. A `variant`
+ * keeps its own best instead of competing with the card's default one.
+ */
+export function recordCardScore(
+  cardId: string,
+  score: number,
+  order: ScoreOrder = 'higher',
+  variant?: string,
+): ScoreResult {
+  const progress = getCardProgress(cardId);
+  const previousBest = variant === undefined ? progress.bestScore : progress.variantBestScores[variant] ?? null;
+  let best = score;
+  let isNewBest = true;
+  if (previousBest !== null) {
+    isNewBest = order === 'higher' ? score > previousBest : score < previousBest;
+    best = isNewBest ? score : previousBest;
+  }
+
+  updateCard(cardId, (previous) => ({
+    ...previous,
+    ...(variant === undefined
+      ? { bestScore: best }
+      : { variantBestScores: { ...previous.variantBestScores, [variant]: best } }),
+    lastPlayedAt: Date.now(),
+  }));
+  return { best, isNewBest };
+}
+
+// ── Modes & resets ───────────────────────────────────────────────────────
+
+export function getDeckMode(): DeckMode {
+  return mode;
+}
+
+function switchMode(next: DeckMode) {
+  mode = next;
+  try {
+    localStorage.setItem(DECK_MODE_STORAGE_KEY, next);
+  } catch {
+    // ignore storage failures
+  }
+}
+
+/** Forgets every card in every mode and goes back to normal mode. */
+export function resetProgress() {
+  try {
+    localStorage.removeItem(PROGRESS_STORAGE_KEY);
+    localStorage.removeItem(HARD_PROGRESS_STORAGE_KEY);
+  } catch {
+    // ignore storage failures
+  }
+  switchMode('normal');
+  writable = true;
+  writeState(emptyState());
+}
+
+/** Starts a fresh hard-mode run; normal-mode progress is kept for when the player switches back. */
+export function startHardMode() {
+  switchMode('hard');
+  writable = true;
+  writeState(emptyState());
+}
+
+/** Returns to normal-mode progress, exactly as it was before the hard-mode run. */
+export function leaveHardMode() {
+  switchMode('normal');
+  ({ state, writable } = readFromStorage('normal'));
+  listeners.forEach((listener) => listener());
+}
+
+/** Formats a clear time in ms as `m:ss`. */
+export function formatClearTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function useProgress(): ProgressState {
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+export function useDeckMode(): DeckMode {
+  return useSyncExternalStore(subscribe, getDeckMode, getDeckMode);
+}
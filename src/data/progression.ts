@@ -0,0 +1,76 @@
+import { useSyncExternalStore } from 'react';
+import type { CardData } from './cards';
+import { isCardSolved, type ProgressState } from './progress';
+
+/**
+ * Prerequisites of `card` that are still unsolved. Ids missing from `cardById` (a retired
+ * card, say) no longer block anything, and a teaser keeps its countdown instead of a lock.
+ */
+export function getMissingPrerequisites(
+  card: CardData,
+  cardById: Map<string, CardData>,
+  progress: ProgressState
+): CardData[] {
+  if (!card.requires || card.interaction === 'upcoming') return [];
+  return card.requires
+    .map((id) => cardById.get(id))
+    .filter((required): required is CardData => !!required && !isCardSolved(progress.cards[required.id]));
+}
+
+/** Locked cards mapped to what still has to be solved; cards that can be opened are absent. */
+export function getLockedCards(cards: CardData[], progress: ProgressState): Map<string, CardData[]> {
+  const cardById = new Map(cards.map((card) => [card.id, card]));
+  const locked = new Map<string, CardData[]>();
+  cards.forEach((card) => {
+    const missing = getMissingPrerequisites(card, cardById, progress);
+    if (missing.length > 0) locked.set(card.id, missing);
+  });
+  return locked;
+}
+
+/** True once every card in `cards` has been solved at least once. */
+export function isDeckComplete(cards: CardData[], progress: ProgressState): boolean {
+  return cards.length > 0 && cards.every((card) => isCardSolved(progress.cards[card.id]));
+}
+
+/** "Vibe Coding", "Vibe Coding and Diary", "Vibe Coding, Diary and Scroll". */
+export function formatPrerequisites(cards: CardData[]): string {
+  const names = cards.map((card) => card.headline);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+// ── Unlock animations ────────────────────────────────────────────────────
+
+/** Cards waiting to play their unlock animation; faces subscribe so the stack's snapshot of them still animates. */
+let pendingUnlocks: ReadonlySet<string> = new Set();
+const listeners = new Set<() => void>();
+
+function setPendingUnlocks(next: ReadonlySet<string>) {
+  pendingUnlocks = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function queueUnlockAnimations(cardIds: Iterable<string>) {
+  const next = new Set(pendingUnlocks);
+  for (const id of cardIds) next.add(id);
+  if (next.size !== pendingUnlocks.size) setPendingUnlocks(next);
+}
+
+export function finishUnlockAnimation(cardId: string) {
+  if (!pendingUnlocks.has(cardId)) return;
+  const next = new Set(pendingUnlocks);
+  next.delete(cardId);
+  setPendingUnlocks(next);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useUnlockPending(cardId: string): boolean {
+  return useSyncExternalStore(subscribe, () => pendingUnlocks.has(cardId));
+}
@@ -0,0 +1,50 @@
+const REWARD_LOG_STORAGE_KEY = 'rewardLog';
+/** Oldest events are dropped past this many, so the log can't grow without bound. */
+const MAX_REWARD_LOG_EVENTS = 200;
+
+export type RewardEventKind = 'shown' | 'clicked';
+
+/** One reward call-to-action impression or click; kept on this device only. */
+export interface RewardEvent {
+  cardId: string;
+  kind: RewardEventKind;
+  at: number;
+}
+
+function isRewardEvent(raw: unknown): raw is RewardEvent {
+  if (!raw || typeof raw !== 'object') return false;
+  const record = raw as Record<string, unknown>;
+  return typeof record.cardId === 'string'
+    && (record.kind === 'shown' || record.kind === 'clicked')
+    && typeof record.at === 'number';
+}
+
+/** Logged events, oldest first. */
+export function readRewardLog(): RewardEvent[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(REWARD_LOG_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isRewardEvent) : [];
+  } catch {
+    return [];
+  }
+}
+
+function appendRewardEvent(cardId: string, kind: RewardEventKind) {
+  const events = [...readRewardLog(), { cardId, kind, at: Date.now() }].slice(-MAX_REWARD_LOG_EVENTS);
+  try {
+    localStorage.setItem(REWARD_LOG_STORAGE_KEY, JSON.stringify(events));
+  } catch {
+    // ignore storage failures
+  }
+}
+
+export function recordRewardShown(cardId: string) {
+  appendRewardEvent(cardId, 'shown');
+}
+
+export function recordRewardClicked(cardId: string) {
+  appendRewardEvent(cardId, 'clicked');
+}
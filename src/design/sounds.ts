@@ -1,14 +1,17 @@
-class SoundSystem {
-  private ctx: AudioContext | null = null;
+import { audioService } from '../utils/audio';
 
+class SoundSystem {
+  /** Throws when Web Audio is unavailable; every sound below swallows errors. */
   private getCtx(): AudioContext {
-    if (!this.ctx) {
-      this.ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-    }
-    if (this.ctx.state === 'suspended') {
-      this.ctx.resume();
-    }
-    return this.ctx;
+    const ctx = audioService.getContext();
+    if (!ctx) throw new Error('Web Audio is unavailable');
+    return ctx;
+  }
+
+  private get output(): AudioNode {
+    const bus = audioService.getBus('sfx');
+    if (!bus) throw new Error('Web Audio is unavailable');
+    return bus;
   }
 
   private createNoiseBuffer(duration: number): AudioBuffer {
@@ -33,7 +36,7 @@ class SoundSystem {
       gain.gain.setValueAtTime(0.05, ctx.currentTime);
       gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.04);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.output);
       osc.start(ctx.currentTime);
       osc.stop(ctx.currentTime + 0.05);
     } catch { /* noop */ }
@@ -52,7 +55,7 @@ class SoundSystem {
       gain1.gain.setValueAtTime(0.08, now);
       gain1.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
       osc1.connect(gain1);
-      gain1.connect(ctx.destination);
+      gain1.connect(this.output);
       osc1.start(now);
       osc1.stop(now + 0.16);
 
@@ -63,7 +66,7 @@ class SoundSystem {
       gain2.gain.setValueAtTime(0.08, now + 0.12);
       gain2.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
       osc2.connect(gain2);
-      gain2.connect(ctx.destination);
+      gain2.connect(this.output);
       osc2.start(now + 0.12);
       osc2.stop(now + 0.31);
     } catch { /* noop */ }
@@ -80,7 +83,7 @@ class SoundSystem {
       gain.gain.setValueAtTime(0.05, ctx.currentTime);
       gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.08);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.output);
       osc.start(ctx.currentTime);
       osc.stop(ctx.currentTime + 0.09);
     } catch { /* noop */ }
@@ -105,7 +108,7 @@ class SoundSystem {
 
       source.connect(bandpass);
       bandpass.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.output);
       source.start(ctx.currentTime);
       source.stop(ctx.currentTime + 0.04);
     } catch { /* noop */ }
@@ -126,7 +129,7 @@ class SoundSystem {
         gain.gain.setValueAtTime(0.04, now);
         gain.gain.exponentialRampToValueAtTime(0.001, now + 0.4);
         osc.connect(gain);
-        gain.connect(ctx.destination);
+        gain.connect(this.output);
         osc.start(now);
         osc.stop(now + 0.42);
       }
@@ -152,7 +155,7 @@ class SoundSystem {
       noiseGain.gain.exponentialRampToValueAtTime(0.001, now + 0.025);
       noise.connect(noiseBP);
       noiseBP.connect(noiseGain);
-      noiseGain.connect(ctx.destination);
+      noiseGain.connect(this.output);
       noise.start(now);
       noise.stop(now + 0.03);
 
@@ -164,7 +167,7 @@ class SoundSystem {
       scrapeGain.gain.setValueAtTime(0.012, now);
       scrapeGain.gain.exponentialRampToValueAtTime(0.001, now + 0.02);
       scrape.connect(scrapeGain);
-      scrapeGain.connect(ctx.destination);
+      scrapeGain.connect(this.output);
       scrape.start(now);
       scrape.stop(now + 0.025);
 
@@ -180,7 +183,7 @@ class SoundSystem {
       popGain.gain.exponentialRampToValueAtTime(0.001, now + 0.008);
       pop.connect(popHP);
       popHP.connect(popGain);
-      popGain.connect(ctx.destination);
+      popGain.connect(this.output);
       pop.start(now);
       pop.stop(now + 0.01);
     } catch { /* noop */ }
@@ -197,7 +200,7 @@ class SoundSystem {
       gain.gain.setValueAtTime(0.04, ctx.currentTime);
       gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.03);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.output);
       osc.start(ctx.currentTime);
       osc.stop(ctx.currentTime + 0.04);
     } catch { /* noop */ }
@@ -214,29 +217,50 @@ class SoundSystem {
       gain.gain.setValueAtTime(0.06, ctx.currentTime);
       gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.06);
       osc.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(this.output);
       osc.start(ctx.currentTime);
       osc.stop(ctx.currentTime + 0.07);
     } catch { /* noop */ }
   }
 
-  /** Cleanup */
-  destroy() {
-    if (this.ctx) {
-      this.ctx.close();
-      this.ctx = null;
-    }
+  /** Finale — rising arpeggio C5-E5-G5-C6, 120ms apart, then the C major chord held for 1.2s */
+  finale() {
+    try {
+      const ctx = this.getCtx();
+      const now = ctx.currentTime;
+      const arpeggio = [523, 659, 784, 1047];
+
+      arpeggio.forEach((freq, index) => {
+        const start = now + index * 0.12;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = 'triangle';
+        osc.frequency.value = freq;
+        gain.gain.setValueAtTime(0.06, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+        osc.connect(gain);
+        gain.connect(this.output);
+        osc.start(start);
+        osc.stop(start + 0.26);
+      });
+
+      const chordStart = now + arpeggio.length * 0.12;
+      for (const freq of [262, 330, 392, 523]) {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = 'sine';
+        osc.frequency.value = freq;
+        gain.gain.setValueAtTime(0.05, chordStart);
+        gain.gain.exponentialRampToValueAtTime(0.001, chordStart + 1.2);
+        osc.connect(gain);
+        gain.connect(this.output);
+        osc.start(chordStart);
+        osc.stop(chordStart + 1.22);
+      }
+    } catch { /* noop */ }
   }
+
 }
 
 /** Singleton sound system instance */
 export const soundSystem = new SoundSystem();
-
-/** Haptic feedback patterns */
-export const haptics = {
-  lightTap: () => { try { navigator.vibrate(1); } catch { /* noop */ } },
-  confirm: () => { try { navigator.vibrate([30, 20, 50]); } catch { /* noop */ } },
-  reveal: () => { try { navigator.vibrate([50, 30, 100]); } catch { /* noop */ } },
-  dismiss: () => { try { navigator.vibrate(10); } catch { /* noop */ } },
-  typeKey: () => { try { navigator.vibrate(1); } catch { /* noop */ } },
-};
@@ -2,9 +2,32 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import DeckLoadError from './components/DeckLoadError.tsx'
+import ReducedMotionProvider from './components/ReducedMotionProvider.tsx'
+import { loadDeck } from './data/cards.ts'
+import { resolveSessionSeed, SessionSourceContext, type SessionSource } from './utils/random.ts'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
+const session: SessionSource = {
+  seed: resolveSessionSeed(window.location.search, Date.now()),
+  now: () => performance.now(),
+}
+
+const root = createRoot(document.getElementById('root')!)
+
+void loadDeck().then(
+  (deck) => {
+    root.render(
+      <StrictMode>
+        <SessionSourceContext.Provider value={session}>
+          <ReducedMotionProvider>
+            <App deck={deck} />
+          </ReducedMotionProvider>
+        </SessionSourceContext.Provider>
+      </StrictMode>,
+    )
+  },
+  (error: unknown) => {
+    console.error(error)
+    root.render(<DeckLoadError error={error} />)
+  },
 )
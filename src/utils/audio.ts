@@ -0,0 +1,141 @@
+import { useSyncExternalStore } from 'react';
+
+const AUDIO_SETTINGS_STORAGE_KEY = 'audioSettings';
+const DEFAULT_VOLUME = 0.8;
+
+/** `sfx` carries one-shot feedback; `ambience` carries background textures like the diary's dissolve hiss. */
+export type AudioBus = 'sfx' | 'ambience';
+
+export interface AudioSettings {
+  /** Master volume, 0–1. */
+  volume: number;
+  muted: boolean;
+}
+
+function clampVolume(volume: number) {
+  return Math.min(1, Math.max(0, volume));
+}
+
+function readStoredAudioSettings(): AudioSettings {
+  const defaults: AudioSettings = { volume: DEFAULT_VOLUME, muted: false };
+  if (typeof window === 'undefined') return defaults;
+  try {
+    const stored = localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored) as Partial<AudioSettings>;
+    return {
+      volume: typeof parsed.volume === 'number' ? clampVolume(parsed.volume) : defaults.volume,
+      muted: typeof parsed.muted === 'boolean' ? parsed.muted : defaults.muted,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Owns the app's only AudioContext. Sounds connect to a bus from `getBus()` instead of
+ * `ctx.destination`, so master volume and mute apply everywhere. The context is created
+ * on first use (after a user gesture) and suspended while the tab is hidden.
+ */
+class AudioService {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private buses: Partial<Record<AudioBus, GainNode>> = {};
+  private settings: AudioSettings = readStoredAudioSettings();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => this.syncWithVisibility());
+    }
+  }
+
+  /** Shared context, created lazily and resumed if the browser suspended it; null when Web Audio is unavailable. */
+  getContext(): AudioContext | null {
+    if (!this.ctx) {
+      const AudioCtor = typeof window === 'undefined'
+        ? undefined
+        : window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!AudioCtor) return null;
+      try {
+        this.ctx = new AudioCtor();
+      } catch {
+        return null;
+      }
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.targetGain();
+      this.master.connect(this.ctx.destination);
+    }
+    if (this.ctx.state === 'suspended' && document.visibilityState === 'visible') {
+      void this.ctx.resume().catch(() => undefined);
+    }
+    return this.ctx;
+  }
+
+  /** Input node of a bus; connect sound graphs here instead of `ctx.destination`. */
+  getBus(bus: AudioBus = 'sfx'): GainNode | null {
+    const ctx = this.getContext();
+    if (!ctx || !this.master) return null;
+    let node = this.buses[bus];
+    if (!node) {
+      node = ctx.createGain();
+      node.connect(this.master);
+      this.buses[bus] = node;
+    }
+    return node;
+  }
+
+  getSettings(): AudioSettings {
+    return this.settings;
+  }
+
+  setVolume(volume: number) {
+    this.updateSettings({ ...this.settings, volume: clampVolume(volume), muted: false });
+  }
+
+  setMuted(muted: boolean) {
+    this.updateSettings({ ...this.settings, muted });
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private updateSettings(next: AudioSettings) {
+    this.settings = next;
+    this.applyMasterGain();
+    try {
+      localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // ignore storage failures
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private targetGain() {
+    return this.settings.muted ? 0 : this.settings.volume;
+  }
+
+  private applyMasterGain() {
+    if (!this.ctx || !this.master) return;
+    this.master.gain.setTargetAtTime(this.targetGain(), this.ctx.currentTime, 0.02);
+  }
+
+  private syncWithVisibility() {
+    if (!this.ctx) return;
+    if (document.visibilityState === 'hidden') {
+      if (this.ctx.state === 'running') void this.ctx.suspend().catch(() => undefined);
+    } else if (this.ctx.state === 'suspended') {
+      void this.ctx.resume().catch(() => undefined);
+    }
+  }
+}
+
+export const audioService = new AudioService();
+
+export function useAudioSettings(): AudioSettings {
+  return useSyncExternalStore(audioService.subscribe, () => audioService.getSettings());
+}
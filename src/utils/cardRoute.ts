@@ -0,0 +1,21 @@
+const CARD_ROUTE_PATTERN = /^#\/card\/([^/?#]+)\/?$/;
+
+/** Returns the card id encoded in a `#/card/<id>` hash, or null for any other hash. */
+export function parseCardRoute(hash: string): string | null {
+  const match = CARD_ROUTE_PATTERN.exec(hash);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+export function cardRouteHash(cardId: string): string {
+  return `#/card/${encodeURIComponent(cardId)}`;
+}
+
+/** URL of the home stack: current path and query with the hash dropped. */
+export function homeRouteUrl(): string {
+  return `${window.location.pathname}${window.location.search}`;
+}
@@ -0,0 +1,45 @@
+/** Meta tags interactions retint to match the browser chrome to their background. */
+const CHROME_META_NAMES = ['theme-color', 'apple-mobile-web-app-status-bar-style'];
+/** Inline styles interactions set for full-bleed backgrounds and scroll locks. */
+const HTML_STYLE_PROPS = ['backgroundColor'] as const;
+const BODY_STYLE_PROPS = ['backgroundColor', 'overflow', 'position', 'width'] as const;
+
+type MetaSnapshot = { name: string; content: string | null } | { name: string; missing: true };
+
+/**
+ * Records the document-level state interactions mutate and returns a function that puts it
+ * back, for when an overlay dies before its own effect cleanups can run.
+ */
+export function snapshotDocumentChrome(): () => void {
+  const html = document.documentElement;
+  const body = document.body;
+  const htmlStyles = HTML_STYLE_PROPS.map((prop) => [prop, html.style[prop]] as const);
+  const bodyStyles = BODY_STYLE_PROPS.map((prop) => [prop, body.style[prop]] as const);
+  const metas: MetaSnapshot[] = CHROME_META_NAMES.map((name) => {
+    const element = document.querySelector(`meta[name="${name}"]`);
+    return element ? { name, content: element.getAttribute('content') } : { name, missing: true };
+  });
+
+  return () => {
+    htmlStyles.forEach(([prop, value]) => {
+      html.style[prop] = value;
+    });
+    bodyStyles.forEach(([prop, value]) => {
+      body.style[prop] = value;
+    });
+    metas.forEach((snapshot) => {
+      const elements = document.querySelectorAll(`meta[name="${snapshot.name}"]`);
+      if ('missing' in snapshot) {
+        elements.forEach((element) => element.remove());
+        return;
+      }
+      elements.forEach((element) => {
+        if (snapshot.content === null) {
+          element.removeAttribute('content');
+        } else {
+          element.setAttribute('content', snapshot.content);
+        }
+      });
+    });
+  };
+}
@@ -0,0 +1,11 @@
+/** Saves `contents` as a local file through a temporary object URL. */
+export function downloadTextFile(filename: string, contents: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { haptic, recordHaptics, setHapticsEnabled, setHapticsIntensity } from './haptics';
+
+describe('haptic', () => {
+  afterEach(() => {
+    setHapticsEnabled(true);
+    setHapticsIntensity(1);
+    vi.unstubAllGlobals();
+  });
+
+  it('scales vibrations by intensity but keeps the pauses between them', () => {
+    const recorder = recordHaptics();
+    setHapticsIntensity(2);
+    haptic('success');
+    setHapticsIntensity(0.5);
+    haptic('failure');
+    recorder.stop();
+
+    expect(recorder.events).toEqual([
+      { name: 'success', pattern: [100, 30, 200] },
+      { name: 'failure', pattern: [15, 40, 15] },
+    ]);
+  });
+
+  it('never scales a vibration below 1 ms', () => {
+    const recorder = recordHaptics();
+    setHapticsIntensity(0);
+    haptic('tick');
+    recorder.stop();
+
+    expect(recorder.events).toEqual([{ name: 'tick', pattern: [1] }]);
+  });
+
+  it('emits nothing while haptics are turned off', () => {
+    const recorder = recordHaptics();
+    setHapticsEnabled(false);
+    haptic('tap');
+    haptic('success');
+    recorder.stop();
+
+    expect(recorder.events).toEqual([]);
+  });
+
+  it('hands feedback back to navigator.vibrate once the recorder stops', () => {
+    const vibrate = vi.fn(() => true);
+    vi.stubGlobal('navigator', { vibrate });
+
+    const recorder = recordHaptics();
+    haptic('tap');
+    expect(vibrate).not.toHaveBeenCalled();
+
+    recorder.stop();
+    haptic('tap');
+    expect(vibrate).toHaveBeenCalledWith([10]);
+    expect(recorder.events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,132 @@
+import { useSyncExternalStore } from 'react';
+
+const HAPTICS_SETTINGS_STORAGE_KEY = 'hapticsSettings';
+export const MIN_HAPTIC_INTENSITY = 0.5;
+export const MAX_HAPTIC_INTENSITY = 2;
+
+/** Semantic feedback names; interactions pick a meaning and the library owns the timing. */
+export type HapticPattern = 'tap' | 'tick' | 'success' | 'failure' | 'progress';
+
+/** Alternating vibrate/pause durations in ms, as `navigator.vibrate` takes them. */
+const PATTERNS: Record<HapticPattern, number[]> = {
+  tick: [2],
+  tap: [10],
+  progress: [10, 5, 15],
+  success: [50, 30, 100],
+  failure: [30, 40, 30],
+};
+
+export interface HapticsSettings {
+  enabled: boolean;
+  /** Multiplier for vibration lengths; pauses keep their timing. */
+  intensity: number;
+}
+
+export interface HapticEvent {
+  name: HapticPattern;
+  /** The pattern after intensity scaling, exactly as it was handed to the driver. */
+  pattern: number[];
+}
+
+type HapticsDriver = (event: HapticEvent) => void;
+
+const navigatorDriver: HapticsDriver = ({ pattern }) => {
+  try {
+    navigator.vibrate(pattern);
+  } catch {
+    // unsupported devices throw or ignore the call
+  }
+};
+
+function clampIntensity(intensity: number) {
+  return Math.min(MAX_HAPTIC_INTENSITY, Math.max(MIN_HAPTIC_INTENSITY, intensity));
+}
+
+function readStoredHapticsSettings(): HapticsSettings {
+  const defaults: HapticsSettings = { enabled: true, intensity: 1 };
+  if (typeof window === 'undefined') return defaults;
+  try {
+    const stored = localStorage.getItem(HAPTICS_SETTINGS_STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored) as Partial<HapticsSettings>;
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : defaults.enabled,
+      intensity: typeof parsed.intensity === 'number' ? clampIntensity(parsed.intensity) : defaults.intensity,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+let settings = readStoredHapticsSettings();
+let driver: HapticsDriver = navigatorDriver;
+const listeners = new Set<() => void>();
+
+export function supportsHaptics(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+function scalePattern(pattern: number[], intensity: number): number[] {
+  return pattern.map((ms, index) => (index % 2 === 0 ? Math.max(1, Math.round(ms * intensity)) : ms));
+}
+
+/** Plays a named pattern, honoring the player's on/off preference and intensity. */
+export function haptic(name: HapticPattern) {
+  if (!settings.enabled) return;
+  driver({ name, pattern: scalePattern(PATTERNS[name], settings.intensity) });
+}
+
+// ── Settings ─────────────────────────────────────────────────────────────
+
+export function getHapticsSettings(): HapticsSettings {
+  return settings;
+}
+
+function updateHapticsSettings(next: HapticsSettings) {
+  settings = next;
+  try {
+    localStorage.setItem(HAPTICS_SETTINGS_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // ignore storage failures
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function setHapticsEnabled(enabled: boolean) {
+  updateHapticsSettings({ ...settings, enabled });
+}
+
+export function setHapticsIntensity(intensity: number) {
+  updateHapticsSettings({ ...settings, intensity: clampIntensity(intensity) });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useHapticsSettings(): HapticsSettings {
+  return useSyncExternalStore(subscribe, getHapticsSettings);
+}
+
+// ── Test double ──────────────────────────────────────────────────────────
+
+/**
+ * Swaps the device driver for a recorder until `stop()` is called, so tests can assert
+ * which feedback an interaction emitted without touching `navigator.vibrate`.
+ */
+export function recordHaptics(): { events: HapticEvent[]; stop: () => void } {
+  const events: HapticEvent[] = [];
+  const previousDriver = driver;
+  driver = (event) => {
+    events.push(event);
+  };
+  return {
+    events,
+    stop: () => {
+      driver = previousDriver;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { createContext, useCallback, useContext } from 'react';
+
+/** Receives errors thrown from an interaction's loops and timers; `InteractionErrorBoundary` provides it. */
+export const InteractionErrorContext = createContext<((error: unknown) => void) | null>(null);
+
+/** Runs `fn`, handing anything it throws to `report`; without a reporter the error propagates as usual. */
+export function runReporting(report: ((error: unknown) => void) | null | undefined, fn: () => void) {
+  if (!report) {
+    fn();
+    return;
+  }
+  try {
+    fn();
+  } catch (error) {
+    report(error);
+  }
+}
+
+/**
+ * Wraps rAF and timer callbacks so what they throw reaches the surrounding error boundary
+ * instead of the window, where it would go unnoticed while the overlay stays half-broken.
+ */
+export function useErrorGuard() {
+  const report = useContext(InteractionErrorContext);
+  return useCallback(
+    <Args extends unknown[]>(fn: (...args: Args) => void) =>
+      (...args: Args) => runReporting(report, () => fn(...args)),
+    [report],
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRng,
+  dailySeed,
+  hashSeed,
+  pickOne,
+  resolveSessionSeed,
+  shuffled,
+  streamSeed,
+} from './random';
+
+function draws(seed: number, count: number): number[] {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, rng);
+}
+
+describe('createRng', () => {
+  it('replays the same sequence for the same seed', () => {
+    expect(draws(hashSeed('daily-2026-10-19:reorganize'), 5)).toEqual(
+      draws(hashSeed('daily-2026-10-19:reorganize'), 5),
+    );
+  });
+
+  it('gives separate streams separate sequences', () => {
+    expect(draws(hashSeed('abc:scratch'), 5)).not.toEqual(draws(hashSeed('abc:reorganize'), 5));
+  });
+
+  it('stays in [0, 1)', () => {
+    draws(hashSeed('bounds'), 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('draws the same picks and shuffles from a pinned seed', () => {
+    const values = ['alerts', 'tabs', 'social', 'laundry', 'papers'];
+    const first = createRng(hashSeed('pinned'));
+    const second = createRng(hashSeed('pinned'));
+    expect(pickOne(first, values)).toBe(pickOne(second, values));
+    expect(shuffled(first, values)).toEqual(shuffled(second, values));
+    expect(shuffled(first, values).sort()).toEqual([...values].sort());
+  });
+});
+
+describe('streamSeed', () => {
+  it('gives each round of a stream its own seed without touching other streams', () => {
+    expect(streamSeed('rounds', 'bugSquash', 0)).toBe(hashSeed('rounds:bugSquash:0'));
+    expect(streamSeed('rounds', 'bugSquash', 1)).not.toBe(streamSeed('rounds', 'bugSquash', 0));
+    expect(streamSeed('rounds', 'vibeCoding', 0)).not.toBe(streamSeed('rounds', 'bugSquash', 0));
+  });
+
+  it('is the same on every call, so double-invoked initializers agree', () => {
+    expect(streamSeed('rounds', 'scratch', 2)).toBe(streamSeed('rounds', 'scratch', 2));
+  });
+});
+
+describe('resolveSessionSeed', () => {
+  const now = new Date(2026, 9, 19, 12).getTime();
+
+  it('resolves ?seed=daily to the local date', () => {
+    expect(resolveSessionSeed('?seed=daily', now)).toBe('daily-2026-10-19');
+    expect(dailySeed(now)).toBe('daily-2026-10-19');
+  });
+
+  it('keeps a reported seed, minus stray whitespace', () => {
+    expect(resolveSessionSeed('?seed=%20k3x9q2mz%20', now)).toBe('k3x9q2mz');
+  });
+
+  it('makes up a fresh seed without the parameter', () => {
+    expect(resolveSessionSeed('', now)).toMatch(/^[0-9a-z]{8}$/);
+  });
+});
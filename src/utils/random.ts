@@ -0,0 +1,126 @@
+import { createContext, useContext, useState } from 'react';
+
+const SEED_PARAM = 'seed';
+/** `?seed=daily` resolves to today's shared seed. */
+export const DAILY_SEED_VALUE = 'daily';
+
+/** A float in [0, 1), drop-in for `Math.random`. */
+export type Rng = () => number;
+
+/** Seed and monotonic clock for the current session; swap them out to replay a session or pin a test. */
+export interface SessionSource {
+  seed: string;
+  now: () => number;
+}
+
+export const SessionSourceContext = createContext<SessionSource>({
+  seed: DAILY_SEED_VALUE,
+  now: () => performance.now(),
+});
+
+/**
+ * How many times the open card was opened earlier this session, so reopening it doesn't replay
+ * its draws. App owns the count; replaying a session opens cards in the same order.
+ */
+export const StreamRoundContext = createContext(0);
+
+/** mulberry32: small and fast, plenty for layouts and spawn patterns. */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a over the seed text, so readable seeds like `daily-2026-10-19` work. */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function randomBetween(rng: Rng, min: number, max: number): number {
+  return min + rng() * (max - min);
+}
+
+export function pickOne<T>(rng: Rng, values: readonly T[]): T {
+  return values[Math.floor(rng() * values.length)];
+}
+
+/** Fisher-Yates shuffle into a new array. */
+export function shuffled<T>(rng: Rng, values: readonly T[]): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** Everyone playing on the same local date gets the same seed. */
+export function dailySeed(now: number): string {
+  const date = new Date(now);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `daily-${date.getFullYear()}-${month}-${day}`;
+}
+
+export function isDailySeed(seed: string): boolean {
+  return seed.startsWith(`${DAILY_SEED_VALUE}-`);
+}
+
+/**
+ * `?seed=daily` plays today's shared seed and `?seed=<text>` replays a reported session;
+ * without the parameter every page load gets a fresh seed.
+ */
+export function resolveSessionSeed(search: string, now: number): string {
+  const requested = new URLSearchParams(search).get(SEED_PARAM)?.trim();
+  if (requested === DAILY_SEED_VALUE) return dailySeed(now);
+  if (requested) return requested;
+  return Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0');
+}
+
+/** The current page's URL with the seed parameter set, or removed when `seed` is null. */
+export function urlWithSeed(seed: string | null): string {
+  const url = new URL(window.location.href);
+  if (seed === null) {
+    url.searchParams.delete(SEED_PARAM);
+  } else {
+    url.searchParams.set(SEED_PARAM, seed);
+  }
+  return url.toString();
+}
+
+/** Seed for one round of `stream`: each round gets a fresh sequence, the same one for the same session seed. */
+export function streamSeed(seed: string, stream: string, round: number): number {
+  return hashSeed(`${seed}:${stream}:${round}`);
+}
+
+export function useSessionSource(): SessionSource {
+  return useContext(SessionSourceContext);
+}
+
+/** A stream seed fixed for the calling component's lifetime, for work that redraws from scratch. */
+export function useStreamSeed(stream: string): number {
+  const { seed } = useContext(SessionSourceContext);
+  const round = useContext(StreamRoundContext);
+  const [value] = useState(() => streamSeed(seed, stream, round));
+  return value;
+}
+
+/**
+ * An RNG for one named stream (usually an interaction), seeded from the session seed when the
+ * component mounts. Separate streams keep one card's draws from shifting another's.
+ */
+export function useRng(stream: string): Rng {
+  const seed = useStreamSeed(stream);
+  const [rng] = useState(() => createRng(seed));
+  return rng;
+}
@@ -0,0 +1,62 @@
+import { createContext, useContext } from 'react';
+
+export const REDUCED_MOTION_STORAGE_KEY = 'reducedMotion';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+/** Share of a particle burst kept when motion is reduced. */
+const REDUCED_PARTICLE_SHARE = 0.25;
+
+export interface ReducedMotionSetting {
+  reducedMotion: boolean;
+  /** Persists an explicit choice; from then on the OS preference is ignored. */
+  setReducedMotion: (reduced: boolean) => void;
+}
+
+export const ReducedMotionContext = createContext<ReducedMotionSetting>({
+  reducedMotion: false,
+  setReducedMotion: () => {},
+});
+
+export function prefersReducedMotion(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) return false;
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/** Stored in-app choice, or null when the player hasn't picked one yet. */
+export function readStoredReducedMotion(): boolean | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(REDUCED_MOTION_STORAGE_KEY);
+    return stored === null ? null : stored === 'true';
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredReducedMotion(reduced: boolean) {
+  try {
+    localStorage.setItem(REDUCED_MOTION_STORAGE_KEY, String(reduced));
+  } catch {
+    // ignore storage failures
+  }
+}
+
+export function subscribeToMotionPreference(onChange: (reduced: boolean) => void) {
+  if (typeof window === 'undefined' || !window.matchMedia) return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = (event: MediaQueryListEvent) => onChange(event.matches);
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+}
+
+export function useReducedMotionSetting(): ReducedMotionSetting {
+  return useContext(ReducedMotionContext);
+}
+
+export function useReducedMotion(): boolean {
+  return useContext(ReducedMotionContext).reducedMotion;
+}
+
+/** Caps a particle or confetti count; bursts shrink rather than vanish so hits still read. */
+export function capParticles(count: number, reducedMotion: boolean): number {
+  return reducedMotion ? Math.max(1, Math.round(count * REDUCED_PARTICLE_SHARE)) : count;
+}
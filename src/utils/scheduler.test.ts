@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScheduler } from './scheduler';
+
+/** Just enough of `document` for the scheduler's visibility handling. */
+class FakeDocument extends EventTarget {
+  visibilityState: DocumentVisibilityState = 'visible';
+
+  setVisibility(state: DocumentVisibilityState) {
+    this.visibilityState = state;
+    this.dispatchEvent(new Event('visibilitychange'));
+  }
+}
+
+describe('createScheduler', () => {
+  it('follows the injected clock and stands still while paused', () => {
+    let time = 1000;
+    const scheduler = createScheduler({ clock: () => time });
+    expect(scheduler.now()).toBe(1000);
+
+    scheduler.pause();
+    time = 1500;
+    expect(scheduler.now()).toBe(1000);
+
+    scheduler.resume();
+    time = 1600;
+    expect(scheduler.now()).toBe(1100);
+  });
+
+  describe('timers', () => {
+    let fakeDocument: FakeDocument;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      fakeDocument = new FakeDocument();
+      vi.stubGlobal('window', globalThis);
+      vi.stubGlobal('document', fakeDocument);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    const create = (holdAfterHidden = false) => createScheduler({ holdAfterHidden, clock: () => Date.now() });
+
+    it('resumes a timeout with the delay it had left', () => {
+      const scheduler = create();
+      const fired = vi.fn();
+      scheduler.timeout(fired, 1000);
+
+      vi.advanceTimersByTime(400);
+      scheduler.pause();
+      vi.advanceTimersByTime(5000);
+      expect(fired).not.toHaveBeenCalled();
+
+      scheduler.resume();
+      vi.advanceTimersByTime(599);
+      expect(fired).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(fired).toHaveBeenCalledTimes(1);
+    });
+
+    it('resumes an interval mid-period and keeps its full period afterwards', () => {
+      const scheduler = create();
+      const ticked = vi.fn();
+      scheduler.interval(ticked, 100);
+
+      vi.advanceTimersByTime(250);
+      expect(ticked).toHaveBeenCalledTimes(2);
+      scheduler.pause();
+      vi.advanceTimersByTime(1000);
+      expect(ticked).toHaveBeenCalledTimes(2);
+
+      scheduler.resume();
+      vi.advanceTimersByTime(50);
+      expect(ticked).toHaveBeenCalledTimes(3);
+      vi.advanceTimersByTime(100);
+      expect(ticked).toHaveBeenCalledTimes(4);
+    });
+
+    it('pauses while the tab is hidden and resumes when it comes back', () => {
+      const scheduler = create();
+      const disconnect = scheduler.connect();
+      const fired = vi.fn();
+      scheduler.timeout(fired, 300);
+
+      vi.advanceTimersByTime(100);
+      fakeDocument.setVisibility('hidden');
+      expect(scheduler.isPaused()).toBe(true);
+      vi.advanceTimersByTime(1000);
+      expect(fired).not.toHaveBeenCalled();
+
+      fakeDocument.setVisibility('visible');
+      expect(scheduler.isPaused()).toBe(false);
+      vi.advanceTimersByTime(200);
+      expect(fired).toHaveBeenCalledTimes(1);
+      disconnect();
+    });
+
+    it('stays paused after the tab returns with holdAfterHidden, until resume()', () => {
+      const scheduler = create(true);
+      const disconnect = scheduler.connect();
+      const fired = vi.fn();
+      scheduler.timeout(fired, 300);
+
+      fakeDocument.setVisibility('hidden');
+      fakeDocument.setVisibility('visible');
+      expect(scheduler.isPaused()).toBe(true);
+      vi.advanceTimersByTime(1000);
+      expect(fired).not.toHaveBeenCalled();
+
+      scheduler.resume();
+      vi.advanceTimersByTime(300);
+      expect(fired).toHaveBeenCalledTimes(1);
+      disconnect();
+    });
+
+    it('notifies subscribers when it pauses and resumes', () => {
+      const scheduler = create();
+      const listener = vi.fn();
+      scheduler.subscribe(listener);
+
+      scheduler.pause();
+      scheduler.pause();
+      scheduler.resume();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancels everything and stops following visibility once disconnected', () => {
+      const scheduler = create();
+      const disconnect = scheduler.connect();
+      const fired = vi.fn();
+      scheduler.timeout(fired, 100);
+      scheduler.interval(fired, 50);
+
+      disconnect();
+      vi.advanceTimersByTime(1000);
+      expect(fired).not.toHaveBeenCalled();
+
+      fakeDocument.setVisibility('hidden');
+      expect(scheduler.isPaused()).toBe(false);
+    });
+  });
+});
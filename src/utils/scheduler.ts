@@ -0,0 +1,184 @@
+import { useContext, useEffect, useState, useSyncExternalStore } from 'react';
+import { InteractionErrorContext, runReporting } from './interactionErrors';
+import { useSessionSource } from './random';
+
+/** Handle returned by every scheduling call; pass it to `cancel`. */
+export type ScheduledId = number;
+
+type TimerEntry =
+  | { kind: 'timeout' | 'interval'; fn: () => void; ms: number; due: number; remaining: number; native: number | null }
+  | { kind: 'frame'; fn: (time: number) => void; native: number | null };
+
+export interface Scheduler {
+  timeout(fn: () => void, ms: number): ScheduledId;
+  interval(fn: () => void, ms: number): ScheduledId;
+  /** Like `requestAnimationFrame`, but `time` skips paused stretches so frame deltas stay small after a resume. */
+  frame(fn: (time: number) => void): ScheduledId;
+  cancel(id: ScheduledId | null | undefined): void;
+  cancelAll(): void;
+  /** Clock in ms that stands still while paused; use it instead of `performance.now()` inside scheduled work. */
+  now(): number;
+  pause(): void;
+  resume(): void;
+  isPaused(): boolean;
+  /** Turns `holdAfterHidden` on or off, e.g. once a game's live play is over. */
+  setHoldAfterHidden(hold: boolean): void;
+  subscribe(listener: () => void): () => void;
+  /** Starts following tab visibility; the returned function stops and cancels everything scheduled. */
+  connect(): () => void;
+}
+
+export interface SchedulerOptions {
+  /**
+   * Stay paused after the tab becomes visible again, until `resume()` is called. Games use this
+   * to show a pause screen instead of dropping the player straight back into play.
+   */
+  holdAfterHidden?: boolean;
+  /** Monotonic time source in ms; defaults to `performance.now`. */
+  clock?: () => number;
+  /** Receives whatever a scheduled callback throws; without it the error propagates as usual. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * One owner for an interaction's timeouts, intervals and animation frames. Everything pauses
+ * while the tab is hidden (or on `pause()`), resumes with its remaining delay, and disconnecting
+ * cancels whatever is left.
+ */
+export function createScheduler({
+  holdAfterHidden: initialHold = false,
+  clock = () => performance.now(),
+  onError,
+}: SchedulerOptions = {}): Scheduler {
+  const entries = new Map<ScheduledId, TimerEntry>();
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+  let holdAfterHidden = initialHold;
+  let manualPause = false;
+  let hiddenPause = false;
+  let pausedAt: number | null = null;
+  let pausedTotal = 0;
+
+  const paused = () => manualPause || hiddenPause;
+  const now = () => (pausedAt ?? clock()) - pausedTotal;
+
+  const arm = (id: ScheduledId, entry: TimerEntry) => {
+    if (entry.kind === 'frame') {
+      entry.native = requestAnimationFrame(() => {
+        entries.delete(id);
+        runReporting(onError, () => entry.fn(now()));
+      });
+      return;
+    }
+    entry.due = now() + entry.remaining;
+    entry.native = window.setTimeout(() => {
+      if (entry.kind === 'interval') {
+        entry.remaining = entry.ms;
+        arm(id, entry);
+      } else {
+        entries.delete(id);
+      }
+      runReporting(onError, entry.fn);
+    }, entry.remaining);
+  };
+
+  const disarm = (entry: TimerEntry) => {
+    if (entry.native === null) return;
+    if (entry.kind === 'frame') {
+      cancelAnimationFrame(entry.native);
+    } else {
+      window.clearTimeout(entry.native);
+      entry.remaining = Math.max(0, entry.due - now());
+    }
+    entry.native = null;
+  };
+
+  const add = (entry: TimerEntry): ScheduledId => {
+    const id = nextId++;
+    entries.set(id, entry);
+    if (!paused()) arm(id, entry);
+    return id;
+  };
+
+  const updatePaused = (update: () => void) => {
+    const wasPaused = paused();
+    update();
+    const isPausedNow = paused();
+    if (wasPaused === isPausedNow) return;
+    if (isPausedNow) {
+      entries.forEach(disarm);
+      pausedAt = clock();
+    } else {
+      pausedTotal += clock() - (pausedAt ?? clock());
+      pausedAt = null;
+      entries.forEach((entry, id) => arm(id, entry));
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const handleVisibilityChange = () => {
+    const hidden = document.visibilityState === 'hidden';
+    updatePaused(() => {
+      hiddenPause = hidden;
+      if (hidden && holdAfterHidden) manualPause = true;
+    });
+  };
+
+  const cancelAll = () => {
+    entries.forEach(disarm);
+    entries.clear();
+  };
+
+  return {
+    timeout: (fn, ms) => add({ kind: 'timeout', fn, ms, due: 0, remaining: Math.max(0, ms), native: null }),
+    interval: (fn, ms) => add({ kind: 'interval', fn, ms, due: 0, remaining: Math.max(0, ms), native: null }),
+    frame: (fn) => add({ kind: 'frame', fn, native: null }),
+    cancel: (id) => {
+      if (id === null || id === undefined) return;
+      const entry = entries.get(id);
+      if (!entry) return;
+      disarm(entry);
+      entries.delete(id);
+    },
+    cancelAll,
+    now,
+    pause: () => updatePaused(() => {
+      manualPause = true;
+    }),
+    resume: () => updatePaused(() => {
+      manualPause = false;
+    }),
+    isPaused: paused,
+    setHoldAfterHidden: (hold) => {
+      holdAfterHidden = hold;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    connect: () => {
+      handleVisibilityChange();
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        cancelAll();
+      };
+    },
+  };
+}
+
+/** A scheduler owned by the calling component; everything it scheduled is cancelled on unmount. */
+export function useScheduler(options?: SchedulerOptions): Scheduler {
+  const { now } = useSessionSource();
+  const onError = useContext(InteractionErrorContext) ?? undefined;
+  const [scheduler] = useState(() => createScheduler({ clock: now, onError, ...options }));
+  useEffect(() => scheduler.connect(), [scheduler]);
+  return scheduler;
+}
+
+/** Re-renders when the scheduler pauses or resumes. */
+export function useSchedulerPaused(scheduler: Scheduler): boolean {
+  return useSyncExternalStore(scheduler.subscribe, scheduler.isPaused);
+}
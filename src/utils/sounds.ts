@@ -1,17 +1,12 @@
-let audioCtx: AudioContext | null = null;
-
-function getAudioContext(): AudioContext {
-  if (!audioCtx) {
-    audioCtx = new AudioContext();
-  }
-  return audioCtx;
-}
+import { audioService } from './audio';
 
 export class ScratchSoundEngine {
   private ctx: AudioContext;
+  private output: AudioNode;
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: AudioContext, output: AudioNode) {
     this.ctx = ctx;
+    this.output = output;
   }
 
   playTick() {
@@ -35,7 +30,7 @@ export class ScratchSoundEngine {
     highpass.frequency.value = 1500;
     const noiseGain = ctx.createGain();
     noiseGain.gain.value = 0.05;
-    noiseSource.connect(bandpass).connect(highpass).connect(noiseGain).connect(ctx.destination);
+    noiseSource.connect(bandpass).connect(highpass).connect(noiseGain).connect(this.output);
     noiseSource.start(now);
     noiseSource.stop(now + 0.08);
 
@@ -47,7 +42,7 @@ export class ScratchSoundEngine {
     const oscGain = ctx.createGain();
     oscGain.gain.setValueAtTime(0.015, now);
     oscGain.gain.exponentialRampToValueAtTime(0.001, now + 0.07);
-    osc.connect(oscGain).connect(ctx.destination);
+    osc.connect(oscGain).connect(this.output);
     osc.start(now);
     osc.stop(now + 0.07);
 
@@ -64,26 +59,28 @@ export class ScratchSoundEngine {
     crackleHighpass.frequency.value = 4000;
     const crackleGain = ctx.createGain();
     crackleGain.gain.value = 0.03;
-    crackleSource.connect(crackleHighpass).connect(crackleGain).connect(ctx.destination);
+    crackleSource.connect(crackleHighpass).connect(crackleGain).connect(this.output);
     crackleSource.start(now);
     crackleSource.stop(now + 0.01);
   }
 }
 
 export function initAudio() {
-  getAudioContext();
+  audioService.getContext();
 }
 
 export function playCardTick() {
   try {
-    const ctx = getAudioContext();
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = "sine";
     osc.frequency.value = 800;
     gain.gain.value = 0.08;
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output);
     osc.start();
     osc.stop(ctx.currentTime + 0.03);
   } catch {
@@ -93,7 +90,9 @@ export function playCardTick() {
 
 export function playRevealChime() {
   try {
-    const ctx = getAudioContext();
+    const ctx = audioService.getContext();
+    const output = audioService.getBus('sfx');
+    if (!ctx || !output) return;
 
     const osc1 = ctx.createOscillator();
     const osc2 = ctx.createOscillator();
@@ -108,7 +107,7 @@ export function playRevealChime() {
 
     osc1.connect(gain);
     osc2.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output);
 
     osc1.start();
     osc2.start();